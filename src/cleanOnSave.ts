@@ -0,0 +1,98 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Minimatch } from "minimatch";
+import { getRemovalEdits, hasSuppressions, scanSource } from "./engine";
+
+export interface CleanOnSaveOptions {
+  // Console methods removed on save, independent of `consoleMethods`
+  methods: string[];
+  // Globs relative to `root`; empty for every scanned file
+  include: string[];
+  root: string;
+}
+
+// Removes console calls from documents as they are saved. The edits become
+// part of the save, so the file on disk never contains them.
+export class CleanOnSave implements vscode.Disposable {
+  private readonly _disposable: vscode.Disposable;
+
+  constructor(
+    // Undefined when the document should be saved as is
+    private readonly getOptions: (
+      document: vscode.TextDocument,
+    ) => Promise<CleanOnSaveOptions | undefined>,
+    private readonly onCleaned: (
+      document: vscode.TextDocument,
+      statements: number,
+    ) => void,
+  ) {
+    this._disposable = vscode.workspace.onWillSaveTextDocument((e) => {
+      // Auto save after a delay happens while typing; the statement would
+      // vanish under the cursor
+      if (e.reason === vscode.TextDocumentSaveReason.AfterDelay) {
+        return;
+      }
+      e.waitUntil(this.getEdits(e.document));
+    });
+  }
+
+  private async getEdits(
+    document: vscode.TextDocument,
+  ): Promise<vscode.TextEdit[]> {
+    try {
+      const options = await this.getOptions(document);
+      if (!options || options.methods.length === 0) {
+        return [];
+      }
+
+      if (options.include.length > 0) {
+        const relativePath = path
+          .relative(options.root, document.fileName)
+          .split(path.sep)
+          .join("/");
+        const isIncluded = options.include.some((glob) =>
+          new Minimatch(glob, { dot: true }).match(relativePath),
+        );
+        if (!isIncluded) {
+          return [];
+        }
+      }
+
+      // Suppression comments show the statements are kept on purpose
+      const content = document.getText();
+      if (hasSuppressions(content, document.fileName)) {
+        return [];
+      }
+
+      const targets = options.methods;
+      const removed = scanSource(
+        content,
+        document.fileName,
+        targets,
+      ).calls.filter((call) => call.safety !== "unsafe").length;
+      if (removed === 0) {
+        return [];
+      }
+
+      const edits = getRemovalEdits(content, document.fileName, targets).map(
+        (edit) =>
+          vscode.TextEdit.replace(
+            new vscode.Range(
+              document.positionAt(edit.start),
+              document.positionAt(edit.end),
+            ),
+            edit.text,
+          ),
+      );
+      this.onCleaned(document, removed);
+      return edits;
+    } catch (error) {
+      // Never block a save
+      return [];
+    }
+  }
+
+  dispose() {
+    this._disposable.dispose();
+  }
+}
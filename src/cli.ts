@@ -0,0 +1,406 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { Limiter } from "./concurrency";
+import {
+  ConsoleCall,
+  CleanTargets,
+  applyEdits,
+  getLoggerEdits,
+  getRemovalEdits,
+  getRuleErrors,
+  scanSource,
+} from "./engine";
+import { FileFilter } from "./fileFilter";
+import { loadProjectConfig } from "./projectConfig";
+import {
+  GitScope,
+  getChangedFiles,
+  getRepositoryRoot,
+  readStagedFile,
+  stageFile,
+} from "./git";
+import {
+  CleanMode,
+  CleanerSettings,
+  getLoggerOptions,
+  loadSettings,
+} from "./settings";
+import { walkFiles } from "./walker";
+
+const USAGE = `Usage: console-cleaner <command> [options] [paths...]
+
+Commands:
+  scan      Report console statements; exits with 1 when any are found
+  clean     Remove console statements
+  check     Same as scan, for pre-commit hooks
+
+Options:
+  --staged          Only staged changes, read from the index. clean stages
+                    its result and skips files with unstaged changes
+  --working-tree    Only changes since the last commit, including new files
+  --branch[=<ref>]  Only changes since the current branch diverged from <ref>
+                    (defaults to the consoleCleaner.baseBranch setting)
+  --all-lines       With a git scope, target whole changed files instead of
+                    only added or modified lines
+  --mode=<mode>     clean: "remove" console statements or replace them using
+                    the "logger" mappings (defaults to consoleCleaner.cleanMode)
+  -h, --help        Show this help
+
+Settings are read from .vscode/settings.json in the current directory.
+`;
+
+// Maximum number of files read or written at once
+const FILE_CONCURRENCY = 16;
+
+type Command = "scan" | "clean" | "check";
+
+interface CliOptions {
+  command: Command;
+  scope: GitScope;
+  baseBranch?: string;
+  allLines: boolean;
+  mode?: CleanMode;
+  paths: string[];
+}
+
+interface FileResult {
+  filePath: string;
+  calls: ConsoleCall[];
+  error?: string;
+}
+
+class UsageError extends Error {}
+
+// Returns undefined when help was requested
+function parseArgs(args: string[]): CliOptions | undefined {
+  if (args.length === 0 || args.includes("-h") || args.includes("--help")) {
+    return undefined;
+  }
+
+  const [command, ...rest] = args;
+  if (command !== "scan" && command !== "clean" && command !== "check") {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+
+  const options: CliOptions = {
+    command,
+    scope: "all",
+    allLines: false,
+    paths: [],
+  };
+  const setScope = (scope: GitScope) => {
+    if (options.scope !== "all" && options.scope !== scope) {
+      throw new UsageError(
+        "Only one of --staged, --working-tree and --branch can be used",
+      );
+    }
+    options.scope = scope;
+  };
+
+  for (const arg of rest) {
+    if (arg === "--staged") {
+      setScope("staged");
+    } else if (arg === "--working-tree") {
+      setScope("workingTree");
+    } else if (arg === "--branch" || arg.startsWith("--branch=")) {
+      setScope("branch");
+      if (arg.startsWith("--branch=")) {
+        options.baseBranch = arg.slice("--branch=".length);
+        if (!options.baseBranch) {
+          throw new UsageError("--branch= needs a branch name");
+        }
+      }
+    } else if (arg === "--all-lines") {
+      options.allLines = true;
+    } else if (arg.startsWith("--mode=")) {
+      const mode = arg.slice("--mode=".length);
+      if (mode !== "remove" && mode !== "logger") {
+        throw new UsageError(`Unknown mode: ${mode}`);
+      }
+      options.mode = mode;
+    } else if (arg.startsWith("-")) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else {
+      options.paths.push(arg);
+    }
+  }
+
+  return options;
+}
+
+// Files to process, mapped to the zero-based lines in scope (undefined when
+// the whole file is in scope)
+async function collectTargets(
+  root: string,
+  settings: CleanerSettings,
+  filter: FileFilter,
+  options: CliOptions,
+): Promise<Map<string, ReadonlySet<number> | undefined>> {
+  const targets = new Map<string, ReadonlySet<number> | undefined>();
+  const paths = options.paths.map((target) => path.resolve(root, target));
+
+  if (options.scope === "all") {
+    const limiter = new Limiter(FILE_CONCURRENCY);
+    for (const target of paths.length > 0 ? paths : [root]) {
+      const stat = await fs.promises.stat(target);
+      if (stat.isDirectory()) {
+        await walkFiles(target, filter, { limiter }, async (filePath) => {
+          targets.set(filePath, undefined);
+        });
+      } else if (await filter.shouldScan(target)) {
+        targets.set(target, undefined);
+      }
+    }
+    return targets;
+  }
+
+  const changes = await getChangedFiles(
+    root,
+    {
+      scope: options.scope,
+      baseBranch: options.baseBranch ?? settings.baseBranch,
+      changedLinesOnly: settings.changedLinesOnly && !options.allLines,
+    },
+    paths,
+    // Staged content is read from the index
+    options.scope === "staged",
+  );
+  for (const [filePath, lines] of changes) {
+    if (await filter.shouldScan(filePath)) {
+      targets.set(filePath, lines ?? undefined);
+    }
+  }
+  return targets;
+}
+
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions | undefined;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`console-cleaner: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+  if (!options) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const root = process.cwd();
+  const settings = await loadSettings(root);
+  const projectConfig = await loadProjectConfig(root);
+  const filter = new FileFilter(root, {
+    ignoreFolders: settings.ignoreFolders,
+    fileExtensions: settings.fileExtensions,
+    include: settings.include,
+    exclude: [
+      ...settings.exclude,
+      ...(settings.respectEditorExcludes ? settings.editorExcludes : []),
+      ...(projectConfig.config?.ignoredGlobs ?? []),
+    ],
+    respectGitignore: settings.respectGitignore,
+  });
+  const targets = await collectTargets(root, settings, filter, options);
+  // The settings, narrowed by the matching .consolecleanerrc overrides
+  const getCleanTargets = (filePath: string): CleanTargets => {
+    const policy = projectConfig.config?.resolve(filePath, settings);
+    if (policy?.ignored) {
+      return { consoleMethods: [], rules: [] };
+    }
+    return {
+      consoleMethods: policy?.consoleMethods ?? settings.consoleMethods,
+      rules: policy?.rules ?? settings.rules,
+    };
+  };
+  for (const message of [
+    ...projectConfig.errors,
+    ...getRuleErrors(settings.rules),
+  ]) {
+    process.stderr.write(`console-cleaner: ${message}\n`);
+  }
+
+  // The staged scope looks at what is about to be committed, whatever the
+  // working tree holds
+  const repositoryRoot =
+    options.scope === "staged" ? await getRepositoryRoot(root) : undefined;
+  const readContent = (filePath: string) =>
+    repositoryRoot
+      ? readStagedFile(repositoryRoot, filePath)
+      : fs.promises.readFile(filePath, "utf8");
+  // Cleaned staged content is written to the working tree and staged again.
+  // Files with unstaged edits are refused, as those would be staged too.
+  const writeContent = async (
+    filePath: string,
+    content: string,
+    cleaned: string,
+  ) => {
+    if (
+      repositoryRoot &&
+      (await fs.promises.readFile(filePath, "utf8")) !== content
+    ) {
+      throw new Error(
+        "has unstaged changes; stage or stash them before cleaning staged changes",
+      );
+    }
+    await fs.promises.writeFile(filePath, cleaned, "utf8");
+    if (repositoryRoot) {
+      await stageFile(repositoryRoot, filePath);
+    }
+  };
+
+  const mode = options.mode ?? settings.cleanMode;
+  const getEdits = (
+    content: string,
+    filePath: string,
+    lines: ReadonlySet<number> | undefined,
+  ) =>
+    mode === "logger"
+      ? getLoggerEdits(
+          content,
+          filePath,
+          getCleanTargets(filePath),
+          getLoggerOptions(settings, root, filePath),
+          lines,
+        )
+      : getRemovalEdits(content, filePath, getCleanTargets(filePath), lines);
+
+  const limiter = new Limiter(FILE_CONCURRENCY);
+  const results = await Promise.all(
+    Array.from(targets.keys())
+      .sort()
+      .map((filePath) =>
+        limiter.run(async (): Promise<FileResult> => {
+          const lines = targets.get(filePath);
+          try {
+            const content = await readContent(filePath);
+            const { calls } = scanSource(
+              content,
+              filePath,
+              getCleanTargets(filePath),
+              lines,
+            );
+            if (options!.command === "clean" && calls.length > 0) {
+              const cleaned = applyEdits(
+                content,
+                getEdits(content, filePath, lines),
+              );
+              await writeContent(filePath, content, cleaned);
+            }
+            return { filePath, calls };
+          } catch (error) {
+            return {
+              filePath,
+              calls: [],
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        }),
+      ),
+  );
+
+  return report(root, options, results);
+}
+
+function report(
+  root: string,
+  options: CliOptions,
+  results: FileResult[],
+): number {
+  const relative = (filePath: string) =>
+    path.relative(root, filePath).split(path.sep).join("/");
+
+  let totalCalls = 0;
+  let fileCount = 0;
+  let errorCount = 0;
+  let skippedCount = 0;
+
+  for (const result of results) {
+    if (result.error) {
+      errorCount++;
+      process.stderr.write(
+        `console-cleaner: could not process ${relative(result.filePath)}: ${result.error}\n`,
+      );
+      continue;
+    }
+    if (result.calls.length === 0) {
+      continue;
+    }
+
+    if (options.command === "clean") {
+      // Unsafe calls are left in place
+      const skipped = result.calls.filter((call) => call.safety === "unsafe");
+      const removed = result.calls.length - skipped.length;
+      skippedCount += skipped.length;
+      for (const call of skipped) {
+        process.stdout.write(
+          `Skipped ${relative(result.filePath)}:${call.line + 1}:${call.column + 1} (${call.reason})\n`,
+        );
+      }
+      if (removed > 0) {
+        totalCalls += removed;
+        fileCount++;
+        process.stdout.write(
+          `Cleaned ${relative(result.filePath)} (${removed})\n`,
+        );
+      }
+      continue;
+    }
+    totalCalls += result.calls.length;
+    fileCount++;
+    for (const call of result.calls) {
+      const label = call.rule
+        ? `${call.method} (${call.rule})`
+        : `console.${call.method}`;
+      const safety =
+        call.safety === "unsafe" ? `  [unsafe: ${call.reason}]` : "";
+      process.stdout.write(
+        `${relative(result.filePath)}:${call.line + 1}:${call.column + 1}  ${label}  ${call.snippet}${safety}\n`,
+      );
+    }
+  }
+
+  if (options.command === "clean") {
+    process.stdout.write(
+      `Removed ${totalCalls} console statement(s) from ${fileCount} file(s)\n`,
+    );
+    if (skippedCount > 0) {
+      process.stdout.write(
+        `Skipped ${skippedCount} statement(s) that need manual review\n`,
+      );
+    }
+    return errorCount > 0 ? 2 : 0;
+  }
+
+  if (totalCalls === 0) {
+    process.stdout.write(
+      `No console statements found in ${results.length} file(s)\n`,
+    );
+    return errorCount > 0 ? 2 : 0;
+  }
+
+  process.stdout.write(
+    `\nFound ${totalCalls} console statement(s) in ${fileCount} file(s)\n`,
+  );
+  if (options.command === "check" && options.scope === "staged") {
+    process.stderr.write(
+      "Commit blocked: remove them, run `console-cleaner clean --staged`, or commit with --no-verify.\n",
+    );
+  }
+  return 1;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    process.stderr.write(
+      `console-cleaner: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    process.exitCode = 2;
+  },
+);
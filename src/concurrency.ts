@@ -0,0 +1,27 @@
+// Runs at most `limit` tasks at a time; further tasks wait in FIFO order
+export class Limiter {
+  private _active = 0;
+  private readonly _queue: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this._active >= this.limit) {
+      // The finishing task hands over its slot, so `_active` stays counted
+      await new Promise<void>((resolve) => this._queue.push(resolve));
+    } else {
+      this._active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this._queue.shift();
+      if (next) {
+        next();
+      } else {
+        this._active--;
+      }
+    }
+  }
+}
@@ -0,0 +1,449 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { ScanSnapshot, StatsHistory } from "./statsHistory";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Breakdown rows shown before the rest are summed up as "Other"
+const MAX_ROWS = 12;
+
+// Webview panel with the current breakdowns, the trend across scans and
+// the recent clean totals
+export class StatsDashboard implements vscode.Disposable {
+  public static readonly viewType = "consoleCleaner.dashboard";
+
+  private _panel?: vscode.WebviewPanel;
+  // Content last posted to the page
+  private _sentContent?: string;
+
+  constructor(
+    private readonly history: StatsHistory,
+    private readonly getCurrent: () => ScanSnapshot,
+  ) {}
+
+  show() {
+    if (this._panel) {
+      this._panel.reveal();
+      return;
+    }
+
+    this._panel = vscode.window.createWebviewPanel(
+      StatsDashboard.viewType,
+      "Console Cleaner Statistics",
+      vscode.ViewColumn.Active,
+      { enableScripts: true },
+    );
+    this._panel.onDidDispose(() => {
+      this._panel = undefined;
+      this._sentContent = undefined;
+    });
+    // Updates are not sent while hidden
+    this._panel.onDidChangeViewState(() => this.refresh());
+    this._panel.webview.onDidReceiveMessage(async (msg) => {
+      switch (msg.command) {
+        case "ready":
+          // The page was loaded or reloaded and has nothing to show yet
+          this._sentContent = undefined;
+          this.refresh();
+          break;
+        case "rescan":
+          await vscode.commands.executeCommand("consoleCleaner.rescan");
+          break;
+        case "clearHistory": {
+          const choice = await vscode.window.showWarningMessage(
+            "Clear the scan history and clean totals of this workspace?",
+            { modal: true },
+            "Clear History",
+          );
+          if (choice === "Clear History") {
+            await this.history.clear();
+            this.refresh();
+          }
+          break;
+        }
+      }
+    });
+    this._panel.webview.html = this.getHtml(this._panel.webview);
+  }
+
+  // Update the open page, e.g. after a scan or clean
+  refresh() {
+    if (!this._panel || !this._panel.visible) {
+      return;
+    }
+    const content = this.getContent();
+    if (content === this._sentContent) {
+      return;
+    }
+    this._sentContent = content;
+    this._panel.webview.postMessage({ command: "update", content });
+  }
+
+  dispose() {
+    this._panel?.dispose();
+  }
+
+  // The page itself is rendered once; its content arrives by message
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = crypto.randomBytes(16).toString("hex");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta
+    http-equiv="Content-Security-Policy"
+    content="default-src 'none'; img-src ${webview.cspSource}; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Console Cleaner Statistics</title>
+  <style nonce="${nonce}">
+    body {
+      padding: 16px 24px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+    }
+
+    h1 {
+      font-size: 18px;
+      font-weight: 600;
+      margin: 0 0 16px;
+    }
+
+    h2 {
+      font-size: 13px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: var(--vscode-descriptionForeground);
+      margin: 24px 0 8px;
+    }
+
+    .cards {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+      gap: 12px;
+    }
+
+    .card {
+      padding: 12px;
+      background-color: var(--vscode-sideBar-background);
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 4px;
+    }
+
+    .card-label {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .card-value {
+      font-size: 24px;
+      font-weight: 600;
+      margin-top: 4px;
+    }
+
+    .card-detail {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .change {
+      font-size: 12px;
+      margin-left: 6px;
+    }
+
+    .change.up {
+      color: var(--vscode-errorForeground);
+    }
+
+    .change.down {
+      color: var(--vscode-testing-iconPassed, var(--vscode-foreground));
+    }
+
+    .breakdowns {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
+      gap: 0 24px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 12px;
+    }
+
+    td {
+      padding: 3px 0;
+    }
+
+    .row-label {
+      width: 40%;
+      max-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      font-family: var(--vscode-editor-font-family);
+    }
+
+    .row-bar {
+      padding: 0 8px;
+    }
+
+    .bar {
+      height: 8px;
+      min-width: 2px;
+      background-color: var(--vscode-charts-blue, var(--vscode-button-background));
+      border-radius: 2px;
+    }
+
+    .row-count {
+      width: 1%;
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .trend {
+      width: 100%;
+      max-width: 720px;
+      height: auto;
+    }
+
+    .trend .line {
+      fill: none;
+      stroke: var(--vscode-charts-blue, var(--vscode-button-background));
+      stroke-width: 2;
+    }
+
+    .trend .point {
+      fill: var(--vscode-charts-blue, var(--vscode-button-background));
+    }
+
+    .trend .axis {
+      stroke: var(--vscode-panel-border);
+    }
+
+    .trend text {
+      font-size: 10px;
+      fill: var(--vscode-descriptionForeground);
+    }
+
+    .empty {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .actions {
+      display: flex;
+      gap: 8px;
+      margin-top: 24px;
+    }
+
+    button {
+      padding: 6px 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-button-foreground);
+      background-color: var(--vscode-button-background);
+      border: none;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+
+    button:hover {
+      background-color: var(--vscode-button-hoverBackground);
+    }
+
+    button.secondary {
+      color: var(--vscode-button-secondaryForeground);
+      background-color: var(--vscode-button-secondaryBackground);
+    }
+
+    button.secondary:hover {
+      background-color: var(--vscode-button-secondaryHoverBackground);
+    }
+  </style>
+</head>
+<body>
+  <h1>📊 Console Cleaner Statistics</h1>
+
+  <div id="content"></div>
+
+  <div class="actions">
+    <button id="rescanBtn">🔄 Rescan Project</button>
+    <button id="clearBtn" class="secondary">Clear History</button>
+  </div>
+
+  <script nonce="${nonce}">
+    (function() {
+      const vscode = acquireVsCodeApi();
+      const content = document.getElementById("content");
+
+      window.addEventListener("message", function(event) {
+        const msg = event.data;
+        if (msg.command === "update") {
+          content.innerHTML = msg.content;
+          // The content security policy blocks inline style attributes
+          for (const bar of content.querySelectorAll(".bar")) {
+            bar.style.width = bar.dataset.width + "%";
+          }
+        }
+      });
+      document.getElementById("rescanBtn").addEventListener("click", function() {
+        vscode.postMessage({ command: "rescan" });
+      });
+      document.getElementById("clearBtn").addEventListener("click", function() {
+        vscode.postMessage({ command: "clearHistory" });
+      });
+
+      vscode.postMessage({ command: "ready" });
+    })();
+  </script>
+</body>
+</html>`;
+  }
+
+  // Cards, trend and breakdowns for the current state
+  private getContent(): string {
+    const current = this.getCurrent();
+    const snapshots = this.history.snapshots;
+    const now = Date.now();
+    const thisWeek = this.history.getCleanedSince(now - WEEK_MS);
+    const lastWeek = this.history.getCleanedSince(now - 2 * WEEK_MS);
+
+    // Compared with the latest recorded scan that differs from now
+    const previous = [...snapshots]
+      .reverse()
+      .find((snapshot) => snapshot.total !== current.total);
+    const change = previous ? current.total - previous.total : 0;
+    const changeLabel =
+      change === 0
+        ? ""
+        : `<span class="change ${change > 0 ? "up" : "down"}" title="Since the scan of ${this.escapeHtml(
+            new Date(previous!.timestamp).toLocaleString(),
+          )}">${change > 0 ? "▲" : "▼"} ${Math.abs(change)}</span>`;
+
+    return `
+  <div class="cards">
+    <div class="card">
+      <div class="card-label">Console statements</div>
+      <div class="card-value">${current.total}${changeLabel}</div>
+      <div class="card-detail">in ${current.files} file(s)</div>
+    </div>
+    <div class="card">
+      <div class="card-label" title="Removed or replaced in the last 7 days">Cleaned this week</div>
+      <div class="card-value">${thisWeek.statements}</div>
+      <div class="card-detail">in ${thisWeek.files} file(s); ${lastWeek.statements - thisWeek.statements} the week before</div>
+    </div>
+    <div class="card">
+      <div class="card-label">Scans recorded</div>
+      <div class="card-value">${snapshots.length}</div>
+      <div class="card-detail">${
+        snapshots.length > 0
+          ? `since ${this.escapeHtml(new Date(snapshots[0].timestamp).toLocaleDateString())}`
+          : "after the next full scan"
+      }</div>
+    </div>
+  </div>
+
+  <h2>Trend across scans</h2>
+  ${this.generateTrend(snapshots)}
+
+  <div class="breakdowns">
+    <div>
+      <h2>By method</h2>
+      ${this.generateBreakdown(current.byMethod)}
+    </div>
+    <div>
+      <h2>By folder</h2>
+      ${this.generateBreakdown(current.byFolder)}
+    </div>
+    <div>
+      <h2>By file type</h2>
+      ${this.generateBreakdown(current.byExtension)}
+    </div>
+  </div>
+`;
+  }
+
+  // Horizontal bars, largest first
+  private generateBreakdown(counts: Record<string, number>): string {
+    const rows = Object.entries(counts).sort(
+      ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b),
+    );
+    if (rows.length === 0) {
+      return `<p class="empty">No console statements found 🎉</p>`;
+    }
+    if (rows.length > MAX_ROWS) {
+      const other = rows
+        .splice(MAX_ROWS - 1)
+        .reduce((sum, [, count]) => sum + count, 0);
+      rows.push(["Other", other]);
+    }
+
+    const max = Math.max(...rows.map(([, count]) => count));
+    return `<table>${rows
+      .map(
+        ([label, count]) => `
+      <tr>
+        <td class="row-label" title="${this.escapeHtml(label)}">${this.escapeHtml(label)}</td>
+        <td class="row-bar"><div class="bar" data-width="${((count / max) * 100).toFixed(1)}"></div></td>
+        <td class="row-count">${count}</td>
+      </tr>`,
+      )
+      .join("")}
+    </table>`;
+  }
+
+  // Line chart of the total per recorded scan
+  private generateTrend(snapshots: readonly ScanSnapshot[]): string {
+    if (snapshots.length < 2) {
+      return `<p class="empty">The trend appears after two full scans with different results.</p>`;
+    }
+
+    const width = 720;
+    const height = 180;
+    const left = 40;
+    const bottom = 20;
+    const top = 10;
+    const max = Math.max(1, ...snapshots.map((snapshot) => snapshot.total));
+    const first = snapshots[0].timestamp;
+    const span = Math.max(1, snapshots[snapshots.length - 1].timestamp - first);
+
+    const points = snapshots.map((snapshot) => ({
+      x: left + ((snapshot.timestamp - first) / span) * (width - left - 10),
+      y: top + (1 - snapshot.total / max) * (height - top - bottom),
+      snapshot,
+    }));
+    const date = (timestamp: number) =>
+      this.escapeHtml(new Date(timestamp).toLocaleDateString());
+
+    return `<svg class="trend" viewBox="0 0 ${width} ${height}" role="img" aria-label="Console statements per scan">
+      <line class="axis" x1="${left}" y1="${height - bottom}" x2="${width}" y2="${height - bottom}"></line>
+      <line class="axis" x1="${left}" y1="${top}" x2="${left}" y2="${height - bottom}"></line>
+      <text x="${left - 6}" y="${top + 4}" text-anchor="end">${max}</text>
+      <text x="${left - 6}" y="${height - bottom}" text-anchor="end">0</text>
+      <text x="${left}" y="${height - 4}">${date(first)}</text>
+      <text x="${width}" y="${height - 4}" text-anchor="end">${date(snapshots[snapshots.length - 1].timestamp)}</text>
+      <polyline class="line" points="${points
+        .map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`)
+        .join(" ")}"></polyline>
+      ${points
+        .map(
+          ({ x, y, snapshot }) =>
+            `<circle class="point" cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="3"><title>${this.escapeHtml(
+              new Date(snapshot.timestamp).toLocaleString(),
+            )}: ${snapshot.total} in ${snapshot.files} file(s)</title></circle>`,
+        )
+        .join("")}
+    </svg>`;
+  }
+
+  private escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+      "&": "&amp;",
+      "<": "&lt;",
+      ">": "&gt;",
+      '"': "&quot;",
+      "'": "&#039;",
+    };
+    return text.replace(/[&<>"']/g, (m) => map[m]);
+  }
+}
@@ -0,0 +1,237 @@
+import * as vscode from "vscode";
+import { toWorkspaceEdit } from "./edits";
+import {
+  CleanTargets,
+  SourceEdit,
+  findConsoleCalls,
+  getIgnoreDirectiveEdit,
+  getRemovalEditAt,
+} from "./engine";
+
+export type DiagnosticSeverityName =
+  | "off"
+  | "error"
+  | "warning"
+  | "information"
+  | "hint";
+
+interface DiagnosticOptions {
+  targets: CleanTargets;
+  severity: DiagnosticSeverityName;
+}
+
+const severities: Record<
+  Exclude<DiagnosticSeverityName, "off">,
+  vscode.DiagnosticSeverity
+> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+export class ConsoleDiagnostics implements vscode.Disposable {
+  public static readonly source = "Console Cleaner";
+  public static readonly code = "console-statement";
+
+  private readonly _collection =
+    vscode.languages.createDiagnosticCollection("consoleCleaner");
+  private readonly _pending = new Map<string, NodeJS.Timeout>();
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly getOptions: (
+      document: vscode.TextDocument,
+    ) => DiagnosticOptions,
+    // Whether scans include the file; others get no diagnostics
+    private readonly shouldScan: (filePath: string) => Promise<boolean>,
+  ) {
+    this._disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.update(document),
+      ),
+      vscode.workspace.onDidChangeTextDocument((e) =>
+        this.scheduleUpdate(e.document),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.cancelUpdate(document);
+        this._collection.delete(document.uri);
+      }),
+    );
+    this.refreshAll();
+  }
+
+  // Re-check every open document, e.g. after a configuration change
+  refreshAll() {
+    this._collection.clear();
+    for (const document of vscode.workspace.textDocuments) {
+      this.update(document);
+    }
+  }
+
+  private scheduleUpdate(document: vscode.TextDocument) {
+    this.cancelUpdate(document);
+    this._pending.set(
+      document.uri.toString(),
+      setTimeout(() => {
+        this._pending.delete(document.uri.toString());
+        this.update(document);
+      }, 300),
+    );
+  }
+
+  private cancelUpdate(document: vscode.TextDocument) {
+    const pending = this._pending.get(document.uri.toString());
+    if (pending) {
+      clearTimeout(pending);
+      this._pending.delete(document.uri.toString());
+    }
+  }
+
+  private async update(document: vscode.TextDocument) {
+    const options = this.getOptions(document);
+
+    if (
+      options.severity === "off" ||
+      document.uri.scheme !== "file" ||
+      !(await this.shouldScan(document.fileName))
+    ) {
+      this._collection.delete(document.uri);
+      return;
+    }
+    if (document.isClosed) {
+      return;
+    }
+
+    const severity = severities[options.severity];
+    const calls = findConsoleCalls(
+      document.getText(),
+      document.fileName,
+      options.targets,
+    );
+
+    this._collection.set(
+      document.uri,
+      calls.map((call) => {
+        const message = call.rule
+          ? `Unexpected debugging statement: ${call.method} (${call.rule})`
+          : `Unexpected console statement: console.${call.method}()`;
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            document.positionAt(call.start),
+            document.positionAt(call.end),
+          ),
+          call.safety === "unsafe"
+            ? `${message} — left for manual review: ${call.reason}`
+            : message,
+          severity,
+        );
+        diagnostic.source = ConsoleDiagnostics.source;
+        diagnostic.code = ConsoleDiagnostics.code;
+        return diagnostic;
+      }),
+    );
+  }
+
+  dispose() {
+    for (const pending of this._pending.values()) {
+      clearTimeout(pending);
+    }
+    this._pending.clear();
+    this._collection.dispose();
+    this._disposables.forEach((disposable) => disposable.dispose());
+  }
+}
+
+export class ConsoleCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+  ];
+
+  constructor(
+    private readonly getTargets: (
+      document: vscode.TextDocument,
+    ) => CleanTargets,
+    private readonly getCleanEdits: (
+      document: vscode.TextDocument,
+    ) => SourceEdit[],
+  ) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const diagnostics = context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source === ConsoleDiagnostics.source &&
+        diagnostic.code === ConsoleDiagnostics.code,
+    );
+    if (diagnostics.length === 0) {
+      return [];
+    }
+
+    const actions: vscode.CodeAction[] = [];
+    const content = document.getText();
+
+    for (const diagnostic of diagnostics) {
+      const edit = getRemovalEditAt(
+        content,
+        document.fileName,
+        this.getTargets(document),
+        document.offsetAt(diagnostic.range.start),
+      );
+      if (edit) {
+        const remove = new vscode.CodeAction(
+          "Remove this console statement",
+          vscode.CodeActionKind.QuickFix,
+        );
+        remove.edit = toWorkspaceEdit(document, [edit]);
+        remove.diagnostics = [diagnostic];
+        remove.isPreferred = true;
+        actions.push(remove);
+      }
+
+      const ignore = this.createIgnoreAction(document, diagnostic);
+      if (ignore) {
+        actions.push(ignore);
+      }
+    }
+
+    const removeAll = new vscode.CodeAction(
+      "Remove all console statements in file",
+      vscode.CodeActionKind.QuickFix,
+    );
+    removeAll.edit = toWorkspaceEdit(document, this.getCleanEdits(document));
+    removeAll.diagnostics = diagnostics;
+    actions.push(removeAll);
+
+    return actions;
+  }
+
+  // Insert the ignore directive above the statement, matching its
+  // indentation. Not offered where no comment fits, e.g. inside a template
+  // literal.
+  private createIgnoreAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+  ): vscode.CodeAction | undefined {
+    const edit = getIgnoreDirectiveEdit(
+      document.getText(),
+      document.fileName,
+      diagnostic.range.start.line,
+      document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n",
+    );
+    if (!edit) {
+      return undefined;
+    }
+
+    const ignore = new vscode.CodeAction(
+      "Ignore this line",
+      vscode.CodeActionKind.QuickFix,
+    );
+    ignore.edit = toWorkspaceEdit(document, [edit]);
+    ignore.diagnostics = [diagnostic];
+    return ignore;
+  }
+}
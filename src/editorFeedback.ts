@@ -0,0 +1,270 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { CleanMode } from "./settings";
+import { CleanTargets, ConsoleCall, findConsoleCalls } from "./engine";
+
+interface FeedbackOptions {
+  targets: CleanTargets;
+}
+
+// Appearance settings, shared by every editor
+export interface FeedbackStyle {
+  highlight: boolean;
+  // CSS color; empty for no background
+  background: string;
+  showGutterIcon: boolean;
+  // Empty for the built-in icon
+  gutterIconPath: string;
+  codeLens: boolean;
+  statusBar: boolean;
+  cleanMode: CleanMode;
+}
+
+// Highlights console statements in visible editors and shows the count of
+// the active one in the status bar. Results come from the editor content, so
+// they follow unsaved changes.
+export class EditorFeedback implements vscode.Disposable {
+  private _decoration: vscode.TextEditorDecorationType;
+  private _style: FeedbackStyle;
+  private readonly _statusBar = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Left,
+    100,
+  );
+  // Calls per document, valid for one document version
+  private readonly _calls = new Map<
+    string,
+    { version: number; calls: ConsoleCall[] | undefined }
+  >();
+  private readonly _pending = new Map<string, NodeJS.Timeout>();
+  // Whether scans include each document's file; looked up once per document
+  private readonly _scanned = new Map<string, boolean>();
+  private readonly _checking = new Set<string>();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  private readonly _disposables: vscode.Disposable[] = [];
+
+  // Fired when the calls of a document or the style change
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    private readonly defaultGutterIcon: vscode.Uri,
+    private readonly getOptions: (
+      document: vscode.TextDocument,
+    ) => FeedbackOptions,
+    private readonly shouldScan: (filePath: string) => Promise<boolean>,
+    private readonly getStyle: () => FeedbackStyle,
+  ) {
+    this._style = getStyle();
+    this._decoration = this.createDecoration();
+    this._statusBar.command = "workbench.view.extension.consoleCleaner";
+
+    this._disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(() => this.updateEditors()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar()),
+      vscode.workspace.onDidChangeTextDocument((e) =>
+        this.scheduleUpdate(e.document),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.cancelUpdate(document);
+        this._calls.delete(document.uri.toString());
+        this._scanned.delete(document.uri.toString());
+      }),
+    );
+    this.updateEditors();
+  }
+
+  get style(): FeedbackStyle {
+    return this._style;
+  }
+
+  // Console calls in the document's current content; undefined for files
+  // that are not scanned, or not known to be yet
+  getCalls(document: vscode.TextDocument): ConsoleCall[] | undefined {
+    const key = document.uri.toString();
+    const isScanned = this._scanned.get(key);
+    if (isScanned === undefined) {
+      this.checkScanned(document);
+      return undefined;
+    }
+    const cached = this._calls.get(key);
+    if (cached?.version === document.version) {
+      return cached.calls;
+    }
+
+    const options = this.getOptions(document);
+    const calls = isScanned
+      ? findConsoleCalls(document.getText(), document.fileName, options.targets)
+      : undefined;
+    this._calls.set(key, { version: document.version, calls });
+    return calls;
+  }
+
+  // Look up whether the document's file is scanned, then redecorate
+  private async checkScanned(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    if (this._checking.has(key)) {
+      return;
+    }
+    this._checking.add(key);
+    try {
+      const isScanned =
+        document.uri.scheme === "file" &&
+        (await this.shouldScan(document.fileName));
+      if (!document.isClosed) {
+        this._scanned.set(key, isScanned);
+        this.updateEditors(document);
+      }
+    } finally {
+      this._checking.delete(key);
+    }
+  }
+
+  // Re-read settings and re-check every visible editor, e.g. after a
+  // configuration change
+  refreshAll() {
+    this._calls.clear();
+    this._scanned.clear();
+    this._style = this.getStyle();
+    this._decoration.dispose();
+    this._decoration = this.createDecoration();
+    this.updateEditors();
+  }
+
+  private createDecoration(): vscode.TextEditorDecorationType {
+    const { background, showGutterIcon, gutterIconPath } = this._style;
+    let gutterIcon: vscode.Uri | undefined;
+    if (showGutterIcon) {
+      // Relative paths are resolved against the first workspace folder
+      const folder = vscode.workspace.workspaceFolders?.[0];
+      gutterIcon = !gutterIconPath
+        ? this.defaultGutterIcon
+        : path.isAbsolute(gutterIconPath) || !folder
+          ? vscode.Uri.file(gutterIconPath)
+          : vscode.Uri.joinPath(folder.uri, gutterIconPath);
+    }
+
+    return vscode.window.createTextEditorDecorationType({
+      backgroundColor: background || undefined,
+      gutterIconPath: gutterIcon,
+      gutterIconSize: "contain",
+      overviewRulerColor: background || undefined,
+      overviewRulerLane: vscode.OverviewRulerLane.Right,
+      rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+    });
+  }
+
+  private scheduleUpdate(document: vscode.TextDocument) {
+    this.cancelUpdate(document);
+    this._pending.set(
+      document.uri.toString(),
+      setTimeout(() => {
+        this._pending.delete(document.uri.toString());
+        this.updateEditors(document);
+      }, 300),
+    );
+  }
+
+  private cancelUpdate(document: vscode.TextDocument) {
+    const pending = this._pending.get(document.uri.toString());
+    if (pending) {
+      clearTimeout(pending);
+      this._pending.delete(document.uri.toString());
+    }
+  }
+
+  // Redecorate the visible editors, or only those showing `document`
+  private updateEditors(document?: vscode.TextDocument) {
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (!document || editor.document === document) {
+        this.decorate(editor);
+      }
+    }
+    this.updateStatusBar();
+    this._onDidChange.fire();
+  }
+
+  private decorate(editor: vscode.TextEditor) {
+    const calls = this._style.highlight
+      ? this.getCalls(editor.document)
+      : undefined;
+    const { document } = editor;
+    editor.setDecorations(
+      this._decoration,
+      (calls ?? []).map((call) => ({
+        range: new vscode.Range(
+          document.positionAt(call.start),
+          document.positionAt(call.end),
+        ),
+        hoverMessage:
+          call.safety === "unsafe"
+            ? `Console Cleaner: left for manual review: ${call.reason}`
+            : undefined,
+      })),
+    );
+  }
+
+  private updateStatusBar() {
+    const document = vscode.window.activeTextEditor?.document;
+    const calls =
+      this._style.statusBar && document ? this.getCalls(document) : undefined;
+    if (!calls) {
+      this._statusBar.hide();
+      return;
+    }
+
+    const unsafe = calls.filter((call) => call.safety === "unsafe").length;
+    this._statusBar.text = `$(debug-console) ${calls.length}`;
+    this._statusBar.tooltip =
+      `${calls.length} console statement(s) in this file` +
+      (unsafe > 0 ? `, ${unsafe} left for manual review` : "") +
+      "\nClick to open Console Cleaner";
+    this._statusBar.show();
+  }
+
+  dispose() {
+    for (const pending of this._pending.values()) {
+      clearTimeout(pending);
+    }
+    this._pending.clear();
+    this._decoration.dispose();
+    this._statusBar.dispose();
+    this._onDidChange.dispose();
+    this._disposables.forEach((disposable) => disposable.dispose());
+  }
+}
+
+// "N console statements — Remove all" at the top of the file
+export class ConsoleCodeLensProvider implements vscode.CodeLensProvider {
+  readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+  constructor(private readonly feedback: EditorFeedback) {
+    this.onDidChangeCodeLenses = feedback.onDidChange;
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const calls = this.feedback.style.codeLens
+      ? this.feedback.getCalls(document)
+      : undefined;
+    if (!calls || calls.length === 0) {
+      return [];
+    }
+
+    const removable = calls.filter((call) => call.safety !== "unsafe").length;
+    const action =
+      this.feedback.style.cleanMode === "logger"
+        ? "Replace all with logger"
+        : "Remove all";
+    const range = new vscode.Range(0, 0, 0, 0);
+    return [
+      new vscode.CodeLens(range, {
+        title:
+          `${calls.length} console statement${calls.length !== 1 ? "s" : ""}` +
+          (removable > 0
+            ? ` — ${action}`
+            : " — all left for manual review"),
+        // Without a command the lens is shown as plain text
+        command: removable > 0 ? "consoleCleaner.cleanFile" : "",
+        arguments: [document.uri],
+      }),
+    ];
+  }
+}
@@ -0,0 +1,21 @@
+import * as vscode from "vscode";
+import { SourceEdit } from "./engine";
+
+// Convert offset-based engine edits into a WorkspaceEdit for `document`
+export function toWorkspaceEdit(
+  document: vscode.TextDocument,
+  edits: SourceEdit[],
+  workspaceEdit = new vscode.WorkspaceEdit(),
+): vscode.WorkspaceEdit {
+  for (const edit of edits) {
+    workspaceEdit.replace(
+      document.uri,
+      new vscode.Range(
+        document.positionAt(edit.start),
+        document.positionAt(edit.end),
+      ),
+      edit.text,
+    );
+  }
+  return workspaceEdit;
+}
@@ -0,0 +1,214 @@
+import * as path from "path";
+
+export type ScriptLanguage = "js" | "jsx" | "ts" | "tsx";
+
+export interface ScriptBlock {
+  // Offsets of the script content, excluding the surrounding tags or fences
+  start: number;
+  end: number;
+  language: ScriptLanguage;
+  // A classic `<script>` of an HTML page, which can neither import nor
+  // require
+  isClassic?: boolean;
+}
+
+// `<script>` `type` values that hold JavaScript; others (JSON, templates,
+// import maps) are data
+const SCRIPT_TYPES: Record<string, ScriptLanguage> = {
+  module: "js",
+  "text/javascript": "js",
+  "application/javascript": "js",
+  "text/ecmascript": "js",
+  "application/ecmascript": "js",
+  "text/babel": "jsx",
+  "text/jsx": "jsx",
+  "text/typescript": "ts",
+  "application/typescript": "ts",
+};
+
+const LANGUAGES: Record<string, ScriptLanguage> = {
+  js: "js",
+  javascript: "js",
+  mjs: "js",
+  cjs: "js",
+  jsx: "jsx",
+  ts: "ts",
+  typescript: "ts",
+  mts: "ts",
+  cts: "ts",
+  tsx: "tsx",
+};
+
+// Script blocks of an embedded host file, in order. Returns undefined for
+// plain script files.
+export function findScriptBlocks(
+  content: string,
+  fileName: string,
+): ScriptBlock[] | undefined {
+  switch (path.extname(fileName).toLowerCase()) {
+    case ".vue":
+    case ".svelte":
+      return findScriptTags(content, "js");
+    case ".html":
+    case ".htm":
+      return findScriptTags(content, "js", true);
+    case ".astro": {
+      // Astro scripts are TypeScript
+      const frontmatter = findFrontmatter(content);
+      const scriptStart = frontmatter[0]?.end ?? 0;
+      return [
+        ...frontmatter,
+        ...findScriptTags(content, "ts").filter(
+          (block) => block.start > scriptStart,
+        ),
+      ];
+    }
+    case ".md":
+    case ".mdx":
+      return findCodeFences(content);
+    default:
+      return undefined;
+  }
+}
+
+function findScriptTags(
+  content: string,
+  defaultLanguage: ScriptLanguage,
+  isPage = false,
+): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  // Commented-out markup is matched first so that its scripts are skipped
+  const pattern =
+    /<!--[\s\S]*?(?:-->|$)|<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/gi;
+
+  for (const match of content.matchAll(pattern)) {
+    if (match[1] === undefined) {
+      continue;
+    }
+    const attributes = getAttributes(match[1]);
+    if (attributes.src !== undefined) {
+      continue;
+    }
+
+    let language: ScriptLanguage | undefined = defaultLanguage;
+    if (attributes.lang !== undefined) {
+      language = LANGUAGES[attributes.lang.toLowerCase()];
+    } else if (attributes.type) {
+      language = SCRIPT_TYPES[attributes.type.toLowerCase()];
+    }
+    if (!language) {
+      continue;
+    }
+
+    // After `<script`, the attributes and `>`
+    const start = match.index! + 8 + match[1].length;
+    blocks.push({
+      start,
+      end: start + match[2].length,
+      language,
+      isClassic: isPage && attributes.type?.toLowerCase() !== "module",
+    });
+  }
+  return blocks;
+}
+
+function getAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?/g;
+  for (const match of text.matchAll(pattern)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
+  }
+  return attributes;
+}
+
+// Astro's `---` fenced component script at the top of the file
+function findFrontmatter(content: string): ScriptBlock[] {
+  const open = /^\s*---[ \t]*\r?\n/.exec(content);
+  if (!open) {
+    return [];
+  }
+  const start = open[0].length;
+  const close = /^---[ \t]*\r?$/m.exec(content.slice(start));
+  if (!close) {
+    return [];
+  }
+  return [{ start, end: start + close.index, language: "ts" }];
+}
+
+// Fenced code blocks tagged with a JavaScript or TypeScript language
+function findCodeFences(content: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  const pattern =
+    /^( {0,3})(`{3,}|~{3,})[ \t]*([\w-]*)[^\n]*\n([\s\S]*?)^ {0,3}\2[`~]*[ \t]*\r?$/gm;
+
+  for (const match of content.matchAll(pattern)) {
+    const language = LANGUAGES[match[3].toLowerCase()];
+    if (!language) {
+      continue;
+    }
+    // After the opening fence line
+    const start = match.index! + match[0].indexOf("\n") + 1;
+    // Exclude the line break before the closing fence
+    const end = start + match[4].length - (match[4].endsWith("\n") ? 1 : 0);
+    blocks.push({ start, end: Math.max(start, end), language });
+  }
+  return blocks;
+}
+
+// One parse covers every block, so TypeScript or JSX in any block applies to
+// all of them
+export function getBlocksLanguage(blocks: ScriptBlock[]): ScriptLanguage {
+  const languages = new Set(blocks.map((block) => block.language));
+  if (languages.has("tsx") || (languages.has("ts") && languages.has("jsx"))) {
+    return "tsx";
+  }
+  if (languages.has("ts")) {
+    return "ts";
+  }
+  return languages.has("jsx") ? "jsx" : "js";
+}
+
+export interface MaskedSource {
+  text: string;
+  // Offsets of the `;` inserted after each block
+  separators: number[];
+}
+
+// Replaces the markup around the blocks with comments and spaces of the same
+// length, keeping line breaks, so that offsets and line numbers in the result
+// match the host file. The markup stays non-blank so removing a statement
+// never takes a tag on the same line with it.
+export function maskMarkup(
+  content: string,
+  blocks: ScriptBlock[],
+): MaskedSource {
+  let text = "";
+  const separators: number[] = [];
+  let cursor = 0;
+
+  for (const block of [
+    ...blocks,
+    { start: content.length, end: content.length },
+  ]) {
+    // Nothing precedes the first block
+    let separated = cursor === 0;
+    text += content
+      .slice(cursor, block.start)
+      .replace(/[^\r\n\u2028\u2029]+/g, (run, offset: number) => {
+        if (run.length < 4) {
+          return " ".repeat(run.length);
+        }
+        // Ends the previous block's last statement, so that ASI can't join
+        // it with the next block
+        if (!separated && run.length >= 5) {
+          separated = true;
+          separators.push(cursor + offset);
+          return `;/*${" ".repeat(run.length - 5)}*/`;
+        }
+        return `/*${" ".repeat(run.length - 4)}*/`;
+      });
+    text += content.slice(block.start, block.end);
+    cursor = block.end;
+  }
+  return { text, separators };
+}
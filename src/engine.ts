@@ -0,0 +1,1383 @@
+import * as path from "path";
+import * as ts from "typescript";
+import {
+  ScriptBlock,
+  ScriptLanguage,
+  findScriptBlocks,
+  getBlocksLanguage,
+  maskMarkup,
+} from "./embedded";
+import {
+  RemovalSafety,
+  SafetyAnalysis,
+  analyzeCall,
+  getOuterExpression,
+  isConsoleRedefined,
+} from "./safety";
+
+export interface ConsoleCall {
+  method: string;
+  // Zero-based position of the call
+  line: number;
+  column: number;
+  // First line of the call's source text, shortened for display
+  snippet: string;
+  // Offsets of the call expression itself
+  start: number;
+  end: number;
+  // Offsets of what cleaning replaces: the enclosing statement, or the call
+  // itself when it is nested in an expression
+  statementStart: number;
+  statementEnd: number;
+  // Name of the custom rule that matched; undefined for console calls
+  rule?: string;
+  // "unsafe" calls are left in place by cleaning, for manual review
+  safety: RemovalSafety;
+  reason?: string;
+}
+
+export interface ScanResult {
+  calls: ConsoleCall[];
+  // Calls skipped because of a suppression comment
+  suppressed: number;
+  // Statements commented out with the disabled marker
+  disabled: number;
+}
+
+// Suppression comments:
+//   // console-cleaner-ignore-next-line
+//   console.log(x); // console-cleaner-ignore-line
+//   /* console-cleaner-disable */ ... /* console-cleaner-enable */
+//   // console-cleaner-disable-file
+export const IGNORE_NEXT_LINE_DIRECTIVE = "console-cleaner-ignore-next-line";
+export const IGNORE_LINE_DIRECTIVE = "console-cleaner-ignore-line";
+export const DISABLE_DIRECTIVE = "console-cleaner-disable";
+export const ENABLE_DIRECTIVE = "console-cleaner-enable";
+export const DISABLE_FILE_DIRECTIVE = "console-cleaner-disable-file";
+
+const DIRECTIVE_PATTERN =
+  /console-cleaner-(ignore-next-line|ignore-line|disable-file|disable|enable)\b/;
+
+// Disabled statements are commented out so they can be restored exactly:
+//   // console-cleaner-disabled: console.log(
+//   // console-cleaner-disabled+   value);
+//   a(); /* console-cleaner-disabled: console.log(x); */ b();
+//   if (x) { /* console-cleaner-disabled{}: console.log(x); */ }
+// `:` starts a statement and `+` continues it on the next line. `{}:` marks
+// the braces as added, to be dropped again on re-enable.
+export const DISABLED_MARKER = "console-cleaner-disabled";
+
+const DISABLED_LINE_PATTERN = new RegExp(`^// ${DISABLED_MARKER}([:+])(?: |$)`);
+const DISABLED_BLOCK_PATTERN = new RegExp(
+  `^/\\* ${DISABLED_MARKER}(\\{\\})?: ([\\s\\S]*) \\*/$`,
+);
+
+// A user-defined match for debugging statements other than console calls
+export interface CleanRule {
+  // Shown in the sidebar stats and diagnostics
+  name: string;
+  enabled?: boolean;
+  // Dotted callee such as `logger.silly` or `alert`. `*` matches any one
+  // segment and `()` a call result, so `debug()` matches `debug("app")(x)`.
+  callee?: string;
+  // Regular expression tested against the callee's source text
+  pattern?: string;
+  // Match `debugger;` statements
+  debugger?: boolean;
+}
+
+// What to look for. A plain array is shorthand for console methods only.
+export type CleanTargets =
+  | string[]
+  | { consoleMethods: string[]; rules?: CleanRule[] };
+
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Routes console calls to a logger instead of deleting them
+export interface LoggerOptions {
+  // Console method to replacement callee, e.g. `{ error: "logger.error" }`.
+  // Methods without a mapping are removed as usual.
+  mappings: Record<string, string>;
+  // Added when a replacement uses `name` and the file does not define it
+  import?: LoggerImport;
+}
+
+export interface LoggerImport {
+  name: string;
+  // Module specifier, written as given
+  from: string;
+  // `import logger from` rather than `import { logger } from`
+  isDefault?: boolean;
+}
+
+// Parse a file with the TypeScript compiler so that strings, template
+// literals and comments are never mistaken for code. In Vue, Svelte, Astro,
+// HTML and Markdown files only the script blocks are parsed; the markup is
+// masked so that offsets still match `content`.
+export function parseSource(content: string, fileName: string): ts.SourceFile {
+  const blocks = findScriptBlocks(content, fileName);
+  if (blocks) {
+    const masked = maskMarkup(content, blocks);
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      masked.text,
+      ts.ScriptTarget.Latest,
+      true,
+      SCRIPT_KINDS[getBlocksLanguage(blocks)],
+    );
+    blockSeparators.set(sourceFile, new Set(masked.separators));
+    scriptBlocks.set(sourceFile, blocks);
+    return sourceFile;
+  }
+  return ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName),
+  );
+}
+
+// `;` that maskMarkup inserted between script blocks, per parsed file
+const blockSeparators = new WeakMap<ts.SourceFile, ReadonlySet<number>>();
+// Script blocks of parsed embedded host files
+const scriptBlocks = new WeakMap<ts.SourceFile, ScriptBlock[]>();
+
+// A statement without a semicolon takes the separator after its block as
+// its own; the separator is markup in the host file
+function getStatementEnd(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+): number {
+  if (!blockSeparators.get(sourceFile)?.has(statement.end - 1)) {
+    return statement.end;
+  }
+  const children = statement.getChildren(sourceFile);
+  return children[children.length - 2]?.end ?? statement.end;
+}
+
+const SCRIPT_KINDS: Record<ScriptLanguage, ts.ScriptKind> = {
+  js: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+  ts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+};
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName).toLowerCase()) {
+    case ".ts":
+    case ".mts":
+    case ".cts":
+      return ts.ScriptKind.TS;
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    default:
+      // Plain JS also accepts JSX syntax
+      return ts.ScriptKind.JS;
+  }
+}
+
+// Returns the method name when `node` is a `console.<method>(...)` call
+function getConsoleMethod(
+  node: ts.Node,
+  methods: string[],
+): string | undefined {
+  if (!ts.isCallExpression(node)) {
+    return undefined;
+  }
+
+  const callee = skipParentheses(node.expression);
+  let objectNode: ts.Expression;
+  let method: string;
+
+  if (ts.isPropertyAccessExpression(callee)) {
+    objectNode = callee.expression;
+    method = callee.name.text;
+  } else if (
+    ts.isElementAccessExpression(callee) &&
+    ts.isStringLiteralLike(callee.argumentExpression)
+  ) {
+    objectNode = callee.expression;
+    method = callee.argumentExpression.text;
+  } else {
+    return undefined;
+  }
+
+  objectNode = skipParentheses(objectNode);
+  if (!ts.isIdentifier(objectNode) || objectNode.text !== "console") {
+    return undefined;
+  }
+
+  return methods.includes(method) ? method : undefined;
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+// Statements that can be deleted outright rather than replaced with `{}`
+function isStatementListParent(node: ts.Node): boolean {
+  return (
+    ts.isBlock(node) ||
+    ts.isSourceFile(node) ||
+    ts.isModuleBlock(node) ||
+    ts.isCaseClause(node) ||
+    ts.isDefaultClause(node)
+  );
+}
+
+export function findConsoleCalls(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+): ConsoleCall[] {
+  return scanSource(content, fileName, targets).calls;
+}
+
+// `lines` limits the scan to statements touching those zero-based lines
+export function scanSource(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  lines?: ReadonlySet<number>,
+): ScanResult {
+  const sourceFile = parseSource(content, fileName);
+  const { matches, suppressed } = collectConsoleMatches(
+    sourceFile,
+    targets,
+    getSuppressions(sourceFile),
+    lines,
+  );
+
+  const disabled = collectComments(sourceFile).filter((range) => {
+    const comment = sourceFile.text.slice(range.pos, range.end);
+    return (
+      DISABLED_LINE_PATTERN.exec(comment)?.[1] === ":" ||
+      DISABLED_BLOCK_PATTERN.test(comment)
+    );
+  }).length;
+
+  const calls = matches.map((match) => {
+    const { node, expression, method, rule, end, analysis } = match;
+    const start = expression.getStart(sourceFile);
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+    return {
+      method,
+      line,
+      column: character,
+      snippet: getSnippet(expression.getText(sourceFile)),
+      start,
+      end: expression.end,
+      statementStart: node.getStart(sourceFile),
+      statementEnd: end,
+      rule,
+      safety: analysis.safety,
+      reason: analysis.reason,
+    };
+  });
+
+  return { calls, suppressed, disabled };
+}
+
+function getSnippet(text: string, maxLength = 80): string {
+  const firstLine = text.split(/\r?\n/)[0].trim();
+  const suffix = text.includes("\n") ? " …" : "";
+  if (firstLine.length > maxLength) {
+    return `${firstLine.slice(0, maxLength - 1)}…`;
+  }
+  return firstLine + suffix;
+}
+
+interface ConsoleMatch {
+  // What cleaning replaces: the statement, or the call (with any parentheses
+  // around it) when it is nested in an expression
+  node: ts.Node;
+  // The call, or the statement itself for `debugger;`
+  expression: ts.Node;
+  method: string;
+  rule?: string;
+  // Offset after `node`, which can differ from `node.end` in embedded
+  // scripts
+  end: number;
+  analysis: SafetyAnalysis;
+}
+
+interface CompiledRule {
+  name: string;
+  debugger: boolean;
+  callee?: string[];
+  pattern?: RegExp;
+}
+
+function getConsoleMethods(targets: CleanTargets): string[] {
+  return Array.isArray(targets) ? targets : targets.consoleMethods;
+}
+
+// Enabled rules; invalid ones are skipped (see getRuleErrors)
+function compileRules(targets: CleanTargets): CompiledRule[] {
+  if (Array.isArray(targets)) {
+    return [];
+  }
+
+  const compiled: CompiledRule[] = [];
+  for (const rule of targets.rules ?? []) {
+    if (rule.enabled === false) {
+      continue;
+    }
+    try {
+      compiled.push({
+        name: rule.name,
+        debugger: !!rule.debugger,
+        callee: rule.callee ? rule.callee.split(".") : undefined,
+        pattern: rule.pattern ? new RegExp(rule.pattern) : undefined,
+      });
+    } catch (error) {
+      // Invalid regular expression
+    }
+  }
+  return compiled;
+}
+
+// Problems with user-defined rules, for reporting in the UI
+export function getRuleErrors(rules: CleanRule[]): string[] {
+  const errors: string[] = [];
+  for (const rule of rules) {
+    const label = rule.name ? `Rule "${rule.name}"` : "Unnamed rule";
+    if (!rule.callee && !rule.pattern && !rule.debugger) {
+      errors.push(`${label} needs a callee, pattern or debugger setting`);
+    }
+    if (rule.pattern) {
+      try {
+        new RegExp(rule.pattern);
+      } catch (error) {
+        errors.push(`${label} has an invalid pattern: ${rule.pattern}`);
+      }
+    }
+  }
+  return errors;
+}
+
+// `a.b["c"]` becomes `a.b.c` and a call result `f(x)` becomes `f()`
+function getCalleePath(node: ts.Expression): string | undefined {
+  node = skipParentheses(node);
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (node.kind === ts.SyntaxKind.ThisKeyword) {
+    return "this";
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const object = getCalleePath(node.expression);
+    return object && `${object}.${node.name.text}`;
+  }
+  if (
+    ts.isElementAccessExpression(node) &&
+    ts.isStringLiteralLike(node.argumentExpression)
+  ) {
+    const object = getCalleePath(node.expression);
+    return object && `${object}.${node.argumentExpression.text}`;
+  }
+  if (ts.isCallExpression(node)) {
+    const callee = getCalleePath(node.expression);
+    return callee && `${callee}()`;
+  }
+  return undefined;
+}
+
+function matchesCallee(rule: string[], calleePath: string): boolean {
+  const segments = calleePath.split(".");
+  return (
+    segments.length === rule.length &&
+    rule.every((segment, i) => segment === "*" || segment === segments[i])
+  );
+}
+
+function matchStatement(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+  methods: string[],
+  rules: CompiledRule[],
+): Pick<ConsoleMatch, "expression" | "method" | "rule"> | undefined {
+  if (ts.isDebuggerStatement(statement)) {
+    const rule = rules.find((rule) => rule.debugger);
+    return (
+      rule && { expression: statement, method: "debugger", rule: rule.name }
+    );
+  }
+  if (!ts.isExpressionStatement(statement)) {
+    return undefined;
+  }
+
+  const expression = skipParentheses(statement.expression);
+  const method = getConsoleMethod(expression, methods);
+  if (method) {
+    return { expression, method };
+  }
+  if (rules.length === 0 || !ts.isCallExpression(expression)) {
+    return undefined;
+  }
+
+  const callee = skipParentheses(expression.expression);
+  const calleePath = getCalleePath(callee);
+  const calleeText = callee.getText(sourceFile);
+  const rule = rules.find(
+    (rule) =>
+      (rule.callee &&
+        calleePath !== undefined &&
+        matchesCallee(rule.callee, calleePath)) ||
+      rule.pattern?.test(calleeText),
+  );
+  return (
+    rule && { expression, method: calleePath ?? calleeText, rule: rule.name }
+  );
+}
+
+// Console statements and rule matches, plus console calls nested in other
+// expressions such as `cond && console.log(x)`
+function collectConsoleMatches(
+  sourceFile: ts.SourceFile,
+  targets: CleanTargets,
+  suppressions: Suppressions = getSuppressions(sourceFile),
+  lines?: ReadonlySet<number>,
+): { matches: ConsoleMatch[]; suppressed: number } {
+  const matches: ConsoleMatch[] = [];
+  const methods = getConsoleMethods(targets);
+  const rules = compileRules(targets);
+  const consoleRedefined = isConsoleRedefined(sourceFile);
+  let suppressed = 0;
+
+  const add = (match: ConsoleMatch) => {
+    const start = match.node.getStart(sourceFile);
+    // Out-of-scope matches are neither targeted nor counted as suppressed
+    const inScope = !lines || touchesLines(sourceFile, start, match.end, lines);
+    if (inScope && isSuppressed(sourceFile, suppressions, start, match.end)) {
+      suppressed++;
+    } else if (inScope) {
+      matches.push(match);
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    const match =
+      ts.isExpressionStatement(node) || ts.isDebuggerStatement(node)
+        ? matchStatement(sourceFile, node, methods, rules)
+        : undefined;
+    if (match) {
+      const { expression, rule } = match;
+      add({
+        ...match,
+        node,
+        end: getStatementEnd(sourceFile, node as ts.Statement),
+        analysis: ts.isCallExpression(expression)
+          ? analyzeCall(expression, !rule && consoleRedefined)
+          : { safety: "safe", context: "statement", effects: [] },
+      });
+      // Anything nested in the arguments goes away with the statement
+      return;
+    }
+
+    if (ts.isCallExpression(node)) {
+      const method = getConsoleMethod(node, methods);
+      if (method) {
+        const outer = getOuterExpression(node);
+        add({
+          node: outer,
+          expression: node,
+          method,
+          end: outer.end,
+          analysis: analyzeCall(node, consoleRedefined),
+        });
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return { matches, suppressed };
+}
+
+interface Suppressions {
+  file: boolean;
+  // Lines covered by ignore-next-line comments
+  nextLines: Set<number>;
+  // Lines carrying an ignore-line comment
+  lines: Set<number>;
+  // Offsets between disable and enable comments
+  ranges: [number, number][];
+}
+
+function getSuppressions(sourceFile: ts.SourceFile): Suppressions {
+  const suppressions: Suppressions = {
+    file: false,
+    nextLines: new Set(),
+    lines: new Set(),
+    ranges: [],
+  };
+  const text = sourceFile.text;
+  if (!text.includes("console-cleaner-")) {
+    return suppressions;
+  }
+
+  const lineOf = (offset: number) =>
+    sourceFile.getLineAndCharacterOfPosition(offset).line;
+  let disabledFrom: number | undefined;
+
+  for (const comment of collectComments(sourceFile)) {
+    const directive = DIRECTIVE_PATTERN.exec(
+      text.slice(comment.pos, comment.end),
+    )?.[1];
+
+    switch (directive) {
+      case "disable-file":
+        suppressions.file = true;
+        break;
+      case "ignore-next-line":
+        suppressions.nextLines.add(lineOf(comment.end) + 1);
+        break;
+      case "ignore-line":
+        suppressions.lines.add(lineOf(comment.pos));
+        break;
+      case "disable":
+        disabledFrom = disabledFrom ?? comment.end;
+        break;
+      case "enable":
+        if (disabledFrom !== undefined) {
+          suppressions.ranges.push([disabledFrom, comment.pos]);
+          disabledFrom = undefined;
+        }
+        break;
+    }
+  }
+
+  // A disable comment without a matching enable runs to the end of the file
+  if (disabledFrom !== undefined) {
+    suppressions.ranges.push([disabledFrom, text.length]);
+  }
+
+  return suppressions;
+}
+
+// Whether any suppression comment appears in the source, whatever it applies
+// to
+export function hasSuppressions(content: string, fileName: string): boolean {
+  if (!content.includes("console-cleaner-")) {
+    return false;
+  }
+  const suppressions = getSuppressions(parseSource(content, fileName));
+  return (
+    suppressions.file ||
+    suppressions.nextLines.size > 0 ||
+    suppressions.lines.size > 0 ||
+    suppressions.ranges.length > 0
+  );
+}
+
+// Edit that adds an ignore directive for the statement on `line`: a comment
+// line above it, or `{/* */}` among JSX children. Lines that start inside a
+// template literal or string get one at their end instead. Undefined when
+// neither position can hold a comment.
+export function getIgnoreDirectiveEdit(
+  content: string,
+  fileName: string,
+  line: number,
+  eol = "\n",
+): SourceEdit | undefined {
+  const sourceFile = parseSource(content, fileName);
+  const text = sourceFile.text;
+  const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+  const lineText = /^[^\r\n]*/.exec(text.slice(lineStart))![0];
+  const lineEnd = lineStart + lineText.length;
+  const indentation = /^[ \t]*/.exec(lineText)![0];
+
+  switch (getCommentContext(sourceFile, lineStart)) {
+    case "code":
+      return {
+        start: lineStart,
+        end: lineStart,
+        text: `${indentation}// ${IGNORE_NEXT_LINE_DIRECTIVE}${eol}`,
+      };
+    case "jsx":
+      return {
+        start: lineStart,
+        end: lineStart,
+        text: `${indentation}{/* ${IGNORE_NEXT_LINE_DIRECTIVE} */}${eol}`,
+      };
+  }
+  switch (getCommentContext(sourceFile, lineEnd)) {
+    case "code":
+      return {
+        start: lineEnd,
+        end: lineEnd,
+        text: ` // ${IGNORE_LINE_DIRECTIVE}`,
+      };
+    case "jsx":
+      return {
+        start: lineEnd,
+        end: lineEnd,
+        text: ` {/* ${IGNORE_LINE_DIRECTIVE} */}`,
+      };
+  }
+  return undefined;
+}
+
+// What a comment inserted at `offset` would be part of: code, JSX children
+// (where it needs braces), or nothing that reads it as a comment (a literal,
+// another comment or markup around script blocks)
+function getCommentContext(
+  sourceFile: ts.SourceFile,
+  offset: number,
+): "code" | "jsx" | undefined {
+  const blocks = scriptBlocks.get(sourceFile);
+  if (
+    blocks?.some(({ start, end }) => offset >= start && offset <= end) ===
+      false ||
+    collectComments(sourceFile).some(
+      (range) => offset > range.pos && offset < range.end,
+    )
+  ) {
+    return undefined;
+  }
+
+  let node: ts.Node = sourceFile;
+  let isJsx = false;
+  for (;;) {
+    if (ts.isJsxElement(node) || ts.isJsxFragment(node)) {
+      const opening = ts.isJsxElement(node)
+        ? node.openingElement
+        : node.openingFragment;
+      const closing = ts.isJsxElement(node)
+        ? node.closingElement
+        : node.closingFragment;
+      isJsx = offset >= opening.end && offset <= closing.getStart(sourceFile);
+    } else if (
+      (ts.isJsxExpression(node) || ts.isJsxSelfClosingElement(node)) &&
+      offset > node.getStart(sourceFile)
+    ) {
+      // Inside the braces or among the attributes
+      isJsx = false;
+    }
+    const child = node
+      .getChildren(sourceFile)
+      .find(({ pos, end }) => offset >= pos && offset < end);
+    if (!child) {
+      break;
+    }
+    node = child;
+  }
+
+  if (node.kind === ts.SyntaxKind.JsxText) {
+    return "jsx";
+  }
+  // Leading trivia of a token, rather than inside one
+  if (node === sourceFile || offset <= node.getStart(sourceFile)) {
+    return isJsx ? "jsx" : "code";
+  }
+  return undefined;
+}
+
+function isSuppressed(
+  sourceFile: ts.SourceFile,
+  suppressions: Suppressions,
+  start: number,
+  end: number,
+): boolean {
+  if (suppressions.file) {
+    return true;
+  }
+
+  const startLine = sourceFile.getLineAndCharacterOfPosition(start).line;
+  const endLine = sourceFile.getLineAndCharacterOfPosition(end).line;
+  if (suppressions.nextLines.has(startLine)) {
+    return true;
+  }
+  for (let line = startLine; line <= endLine; line++) {
+    if (suppressions.lines.has(line)) {
+      return true;
+    }
+  }
+  return suppressions.ranges.some(([from, to]) => start >= from && start < to);
+}
+
+function touchesLines(
+  sourceFile: ts.SourceFile,
+  start: number,
+  end: number,
+  lines: ReadonlySet<number>,
+): boolean {
+  const startLine = sourceFile.getLineAndCharacterOfPosition(start).line;
+  const endLine = sourceFile.getLineAndCharacterOfPosition(end).line;
+  for (let line = startLine; line <= endLine; line++) {
+    if (lines.has(line)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Every comment in the file, in source order
+function collectComments(sourceFile: ts.SourceFile): ts.CommentRange[] {
+  const text = sourceFile.text;
+  const seen = new Set<number>();
+  const comments: ts.CommentRange[] = [];
+  const jsxText: ts.Node[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (node.kind === ts.SyntaxKind.JsxText) {
+      jsxText.push(node);
+      return;
+    }
+    // Comments on the same line as the previous token count as trailing
+    for (const range of [
+      ...(ts.getLeadingCommentRanges(text, node.pos) ?? []),
+      ...(ts.getTrailingCommentRanges(text, node.end) ?? []),
+    ]) {
+      if (!seen.has(range.pos)) {
+        seen.add(range.pos);
+        comments.push(range);
+      }
+    }
+    for (const child of node.getChildren(sourceFile)) {
+      visit(child);
+    }
+  };
+
+  visit(sourceFile);
+
+  // JSX text is not trivia, so `//` inside it is not a comment
+  return comments
+    .filter(
+      (range) =>
+        !jsxText.some((node) => range.pos < node.end && range.end > node.pos),
+    )
+    .sort((a, b) => a.pos - b.pos);
+}
+
+// Single-line comments that contain nothing but a commented-out console call
+function findCommentedConsoleLines(
+  sourceFile: ts.SourceFile,
+  methods: string[],
+  suppressions: Suppressions,
+): ts.CommentRange[] {
+  if (methods.length === 0) {
+    return [];
+  }
+
+  const text = sourceFile.text;
+  const pattern = new RegExp(
+    `^\\/\\/\\s*console\\s*\\.\\s*(${methods.map(escapeRegExp).join("|")})\\s*\\(`,
+  );
+
+  return collectComments(sourceFile).filter(
+    (range) =>
+      range.kind === ts.SyntaxKind.SingleLineCommentTrivia &&
+      pattern.test(text.slice(range.pos, range.end)) &&
+      // Statements disabled by us are restored later, never deleted
+      !text.slice(range.pos, range.end).includes(DISABLED_MARKER) &&
+      !isSuppressed(sourceFile, suppressions, range.pos, range.end),
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Widen a removal to the full line(s) when nothing else shares them, so no
+// blank lines are left behind
+function expandToLines(text: string, start: number, end: number): SourceEdit {
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  let lineEnd = text.indexOf("\n", end);
+  if (lineEnd === -1) {
+    lineEnd = text.length;
+  }
+
+  const before = text.slice(lineStart, start);
+  const after = text.slice(end, lineEnd);
+
+  if (/^[ \t]*$/.test(before) && /^[ \t\r]*$/.test(after)) {
+    return {
+      start: lineStart,
+      end: lineEnd < text.length ? lineEnd + 1 : lineEnd,
+      text: "",
+    };
+  }
+
+  const trailing = /^[ \t]*/.exec(after)?.[0].length ?? 0;
+  return { start, end: end + trailing, text: "" };
+}
+
+export function getRemovalEdits(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  lines?: ReadonlySet<number>,
+): SourceEdit[] {
+  return getCleanupEdits(content, fileName, targets, lines);
+}
+
+// Like getRemovalEdits, but mapped calls are rewritten to the logger
+export function getLoggerEdits(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  logger: LoggerOptions,
+  lines?: ReadonlySet<number>,
+): SourceEdit[] {
+  return getCleanupEdits(content, fileName, targets, lines, logger);
+}
+
+function getCleanupEdits(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  lines?: ReadonlySet<number>,
+  logger?: LoggerOptions,
+): SourceEdit[] {
+  const sourceFile = parseSource(content, fileName);
+  const suppressions = getSuppressions(sourceFile);
+  const { matches } = collectConsoleMatches(
+    sourceFile,
+    targets,
+    suppressions,
+    lines,
+  );
+  const edits: SourceEdit[] = [];
+  const callees: string[] = [];
+
+  for (const match of matches) {
+    const { expression, method, rule, analysis } = match;
+    if (analysis.safety === "unsafe") {
+      // Left for manual review
+      continue;
+    }
+    // Logger mappings only apply to console calls
+    const callee = rule ? undefined : logger?.mappings[method];
+    if (callee && ts.isCallExpression(expression)) {
+      edits.push({
+        start: expression.expression.getStart(sourceFile),
+        end: expression.expression.end,
+        text: callee,
+      });
+      callees.push(callee);
+    } else {
+      edits.push(getMatchRemovalEdit(sourceFile, match));
+    }
+  }
+
+  for (const comment of findCommentedConsoleLines(
+    sourceFile,
+    getConsoleMethods(targets),
+    suppressions,
+  )) {
+    const inside = matches.some(
+      ({ node, end }) =>
+        comment.pos >= node.getStart(sourceFile) && comment.end <= end,
+    );
+    const inScope =
+      !lines || touchesLines(sourceFile, comment.pos, comment.end, lines);
+    if (!inside && inScope) {
+      edits.push(expandToLines(content, comment.pos, comment.end));
+    }
+  }
+
+  const loggerImport = logger?.import;
+  if (
+    loggerImport &&
+    callees.some((callee) => getRootIdentifier(callee) === loggerImport.name) &&
+    !hasTopLevelBinding(sourceFile, loggerImport.name)
+  ) {
+    const edit = getImportEdit(sourceFile, loggerImport);
+    if (edit) {
+      edits.push(edit);
+    }
+  }
+
+  return edits;
+}
+
+function getRootIdentifier(callee: string): string | undefined {
+  return /^\s*([\w$]+)/.exec(callee)?.[1];
+}
+
+function hasTopLevelBinding(sourceFile: ts.SourceFile, name: string): boolean {
+  const bindsName = (binding: ts.BindingName): boolean =>
+    ts.isIdentifier(binding)
+      ? binding.text === name
+      : binding.elements.some(
+          (element) => !ts.isOmittedExpression(element) && bindsName(element.name),
+        );
+
+  return sourceFile.statements.some((statement) => {
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause;
+      const bindings = clause?.namedBindings;
+      return (
+        clause?.name?.text === name ||
+        (!!bindings &&
+          (ts.isNamespaceImport(bindings)
+            ? bindings.name.text === name
+            : bindings.elements.some((element) => element.name.text === name)))
+      );
+    }
+    if (ts.isVariableStatement(statement)) {
+      return statement.declarationList.declarations.some((declaration) =>
+        bindsName(declaration.name),
+      );
+    }
+    if (
+      ts.isImportEqualsDeclaration(statement) ||
+      ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)
+    ) {
+      return statement.name?.text === name;
+    }
+    return false;
+  });
+}
+
+function isRequireStatement(statement: ts.Statement): boolean {
+  return (
+    ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.some(
+      ({ initializer }) =>
+        !!initializer &&
+        ts.isCallExpression(initializer) &&
+        ts.isIdentifier(initializer.expression) &&
+        initializer.expression.text === "require",
+    )
+  );
+}
+
+// Adds the import next to the existing ones, in the file's module style.
+// Returns undefined for classic HTML scripts, which rely on globals.
+function getImportEdit(
+  sourceFile: ts.SourceFile,
+  loggerImport: LoggerImport,
+): SourceEdit | undefined {
+  const statements = sourceFile.statements;
+  const imports = statements.filter(ts.isImportDeclaration);
+  const requires = statements.filter(isRequireStatement);
+  const extension = path.extname(sourceFile.fileName).toLowerCase();
+  const isModule = statements.some(
+    (statement) =>
+      ts.isImportDeclaration(statement) ||
+      ts.isExportDeclaration(statement) ||
+      ts.isExportAssignment(statement) ||
+      (ts.canHaveModifiers(statement) &&
+        !!ts
+          .getModifiers(statement)
+          ?.some(
+            (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+          )),
+  );
+  // Plain .js files without module syntax are CommonJS scripts
+  const useRequire =
+    extension === ".cjs" ||
+    extension === ".cts" ||
+    (!isModule && (requires.length > 0 || extension === ".js"));
+
+  // Follow the quote style of the first existing import
+  const firstSpecifier = imports[0]?.moduleSpecifier.getText(sourceFile);
+  const quote = firstSpecifier?.startsWith("'") ? "'" : '"';
+  const from = `${quote}${loggerImport.from.replace(/[\\'"]/g, "\\$&")}${quote}`;
+  const binding = loggerImport.isDefault
+    ? loggerImport.name
+    : `{ ${loggerImport.name} }`;
+  const text = useRequire
+    ? `const ${binding} = require(${from});`
+    : `import ${binding} from ${from};`;
+
+  const anchors = useRequire ? requires : imports;
+  if (anchors.length > 0) {
+    const last = anchors[anchors.length - 1];
+    return withinModule(sourceFile, {
+      start: last.end,
+      end: last.end,
+      text: `\n${text}`,
+    });
+  }
+
+  // Otherwise above the first statement after any "use strict" prologue
+  const first =
+    statements.find(
+      (statement) =>
+        !(
+          ts.isExpressionStatement(statement) &&
+          ts.isStringLiteral(statement.expression)
+        ),
+    ) ?? statements[statements.length - 1];
+  if (!first) {
+    return withinModule(sourceFile, { start: 0, end: 0, text: `${text}\n` });
+  }
+  const start = first.getStart(sourceFile);
+  const { line } = sourceFile.getLineAndCharacterOfPosition(start);
+  const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+  // e.g. `<script>console.log(x)</script>`, where the line starts with markup
+  const position = /^[ \t]*$/.test(sourceFile.text.slice(lineStart, start))
+    ? lineStart
+    : start;
+  return withinModule(sourceFile, {
+    start: position,
+    end: position,
+    text: `${text}\n`,
+  });
+}
+
+function withinModule(
+  sourceFile: ts.SourceFile,
+  edit: SourceEdit,
+): SourceEdit | undefined {
+  const block = scriptBlocks
+    .get(sourceFile)
+    ?.find(({ start, end }) => edit.start >= start && edit.start <= end);
+  return block?.isClassic ? undefined : edit;
+}
+
+// Edit that removes only the console statement containing `offset`.
+// Returns undefined for unsafe ones.
+export function getRemovalEditAt(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  offset: number,
+): SourceEdit | undefined {
+  const sourceFile = parseSource(content, fileName);
+  const match = collectConsoleMatches(sourceFile, targets).matches.find(
+    ({ node, end }) => offset >= node.getStart(sourceFile) && offset <= end,
+  );
+  return match && match.analysis.safety !== "unsafe"
+    ? getMatchRemovalEdit(sourceFile, match)
+    : undefined;
+}
+
+// Deletes a match, or rewrites it so that its arguments' side effects and
+// the surrounding expression stay intact
+function getMatchRemovalEdit(
+  sourceFile: ts.SourceFile,
+  match: ConsoleMatch,
+): SourceEdit {
+  const { node, end, analysis } = match;
+  const start = node.getStart(sourceFile);
+  const effects = analysis.effects.map((effect) => effect.getText(sourceFile));
+  // Console methods return undefined
+  const value = effects.length > 0 ? `void (${effects.join(", ")})` : "void 0";
+
+  switch (analysis.context) {
+    case "statement":
+      return effects.length > 0
+        ? {
+            start,
+            end,
+            text: getHoistedStatements(
+              sourceFile,
+              node as ts.Statement,
+              effects,
+            ),
+          }
+        : getStatementRemovalEdit(sourceFile, node as ts.Statement, end);
+    case "arrowBody":
+      return { start, end, text: effects.length > 0 ? value : "{}" };
+    case "jsxChild":
+      if (effects.length === 0) {
+        // Drop the whole `{...}`
+        const container = node.parent;
+        return expandToLines(
+          sourceFile.text,
+          container.getStart(sourceFile),
+          container.end,
+        );
+      }
+      return { start, end, text: value };
+    default:
+      return { start, end, text: value };
+  }
+}
+
+// `console.log(i++, await save())` becomes `i++; await save();`
+function getHoistedStatements(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+  effects: string[],
+): string {
+  const text = sourceFile.text;
+  const start = statement.getStart(sourceFile);
+  const statements = effects.map((effect) =>
+    // Parenthesized so they don't parse as blocks or declarations
+    /^(\{|function\b|class\b|let\s*\[)/.test(effect)
+      ? `(${effect});`
+      : `${effect};`,
+  );
+
+  // Keep ASI from joining the first statement to an unterminated previous one
+  const previous = text.slice(0, start).trimEnd().slice(-1);
+  if (/^[([`+\-/]/.test(statements[0]) && !/^$|[;{}]/.test(previous)) {
+    statements[0] = `;${statements[0]}`;
+  }
+
+  if (!isStatementListParent(statement.parent)) {
+    return statements.length === 1
+      ? statements[0]
+      : `{ ${statements.join(" ")} }`;
+  }
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const indentation = /^[ \t]*$/.test(text.slice(lineStart, start))
+    ? text.slice(lineStart, start)
+    : "";
+  return statements.join(`\n${indentation}`);
+}
+
+function getStatementRemovalEdit(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+  end: number,
+): SourceEdit {
+  const start = statement.getStart(sourceFile);
+  if (!isStatementListParent(statement.parent)) {
+    // `if (x) console.log(x);` must keep a statement in place
+    return { start, end, text: "{}" };
+  }
+
+  const text = sourceFile.text;
+  const edit = expandToLines(text, start, end);
+
+  // The removed `;` may have kept ASI from joining the next statement to an
+  // unterminated previous one: `a = 1\nconsole.log(a)\n;[1].forEach(f)`
+  LEADING_TRIVIA.lastIndex = edit.end;
+  const next = edit.end + LEADING_TRIVIA.exec(text)![0].length;
+  const previous = text.slice(0, start).trimEnd().slice(-1);
+  if (/[([`+\-/]/.test(text.charAt(next)) && !/^$|[;{}]/.test(previous)) {
+    return {
+      start: edit.start,
+      end: next,
+      text: `${text.slice(edit.end, next)};`,
+    };
+  }
+  return edit;
+}
+
+// Whitespace and comments, matched from lastIndex
+const LEADING_TRIVIA = /(?:\s|\/\/.*|\/\*[\s\S]*?\*\/)*/y;
+
+// Edits that comment out console statements with the disabled marker.
+// Statements that cannot be wrapped in a block comment are left alone.
+export function getDisableEdits(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  lines?: ReadonlySet<number>,
+): SourceEdit[] {
+  const sourceFile = parseSource(content, fileName);
+  const { matches } = collectConsoleMatches(
+    sourceFile,
+    targets,
+    getSuppressions(sourceFile),
+    lines,
+  );
+  const edits: SourceEdit[] = [];
+
+  for (const { node, end, analysis } of matches) {
+    // Expressions can't be commented out, and unsafe statements are left
+    // for manual review
+    if (analysis.context !== "statement" || analysis.safety === "unsafe") {
+      continue;
+    }
+    const edit = getStatementDisableEdit(sourceFile, node as ts.Statement, end);
+    if (edit) {
+      edits.push(edit);
+    }
+  }
+  return edits;
+}
+
+function getStatementDisableEdit(
+  sourceFile: ts.SourceFile,
+  statement: ts.Statement,
+  end: number,
+): SourceEdit | undefined {
+  const text = sourceFile.text;
+  const start = statement.getStart(sourceFile);
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  let lineEnd = text.indexOf("\n", end);
+  if (lineEnd === -1) {
+    lineEnd = text.length;
+  }
+
+  // A statement on lines of its own is commented out line by line
+  if (
+    isStatementListParent(statement.parent) &&
+    /^[ \t]*$/.test(text.slice(lineStart, start)) &&
+    /^[ \t\r]*$/.test(text.slice(end, lineEnd))
+  ) {
+    const commented = text
+      .slice(lineStart, lineEnd)
+      .split("\n")
+      .map((line, index) => {
+        const indentation = /^[ \t]*/.exec(line)![0];
+        const marker = `// ${DISABLED_MARKER}${index === 0 ? ":" : "+"} `;
+        return indentation + marker + line.slice(indentation.length);
+      })
+      .join("\n");
+    return { start: lineStart, end: lineEnd, text: commented };
+  }
+
+  const statementText = text.slice(start, end);
+  if (statementText.includes("*/")) {
+    return undefined;
+  }
+  if (isStatementListParent(statement.parent)) {
+    return {
+      start,
+      end,
+      text: `/* ${DISABLED_MARKER}: ${statementText} */`,
+    };
+  }
+  // `if (x) console.log(x);` must keep a statement in place
+  return {
+    start,
+    end,
+    text: `{ /* ${DISABLED_MARKER}{}: ${statementText} */ }`,
+  };
+}
+
+// Edits that restore every statement commented out by getDisableEdits
+export function getEnableEdits(
+  content: string,
+  fileName: string,
+  lines?: ReadonlySet<number>,
+): SourceEdit[] {
+  const sourceFile = parseSource(content, fileName);
+  const text = sourceFile.text;
+  const edits: SourceEdit[] = [];
+
+  for (const range of collectComments(sourceFile)) {
+    if (lines && !touchesLines(sourceFile, range.pos, range.end, lines)) {
+      continue;
+    }
+
+    const comment = text.slice(range.pos, range.end);
+    const lineMarker = DISABLED_LINE_PATTERN.exec(comment);
+    if (lineMarker) {
+      edits.push({
+        start: range.pos,
+        end: range.pos + lineMarker[0].length,
+        text: "",
+      });
+      continue;
+    }
+
+    const blockMarker = DISABLED_BLOCK_PATTERN.exec(comment);
+    if (blockMarker) {
+      // Unwrap the `{ }` added where a statement was required
+      const wrapped =
+        blockMarker[1] !== undefined && isDisableWrapper(sourceFile, range);
+      edits.push({
+        start: wrapped ? range.pos - 2 : range.pos,
+        end: wrapped ? range.end + 2 : range.end,
+        text: blockMarker[2],
+      });
+    }
+  }
+  return edits;
+}
+
+// Whether a `{}:` disabled block comment still sits alone in the `{ }`
+// getStatementDisableEdit added around it
+function isDisableWrapper(
+  sourceFile: ts.SourceFile,
+  range: ts.CommentRange,
+): boolean {
+  const text = sourceFile.text;
+  if (
+    text.slice(range.pos - 2, range.pos) !== "{ " ||
+    text.slice(range.end, range.end + 2) !== " }"
+  ) {
+    return false;
+  }
+
+  let wrapper = false;
+  const visit = (node: ts.Node) => {
+    if (node.end < range.end + 2 || node.pos > range.pos - 2) {
+      return;
+    }
+    if (
+      ts.isBlock(node) &&
+      node.getStart(sourceFile) === range.pos - 2 &&
+      node.end === range.end + 2
+    ) {
+      const parent = node.parent;
+      wrapper =
+        node.statements.length === 0 &&
+        (ts.isIfStatement(parent) ||
+          ts.isIterationStatement(parent, false) ||
+          ts.isLabeledStatement(parent) ||
+          ts.isWithStatement(parent));
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return wrapper;
+}
+
+// Apply non-overlapping edits; overlapping ones are dropped in favour of the
+// earliest edit
+export function applyEdits(content: string, edits: SourceEdit[]): string {
+  const sorted = [...edits].sort(
+    (a, b) =>
+      a.start - b.start ||
+      // Insertions go before an edit replacing text at the same offset
+      Number(b.start === b.end) - Number(a.start === a.end) ||
+      b.end - a.end,
+  );
+  let result = "";
+  let cursor = 0;
+
+  for (const edit of sorted) {
+    if (edit.start < cursor) {
+      continue;
+    }
+    result += content.slice(cursor, edit.start) + edit.text;
+    cursor = edit.end;
+  }
+
+  return result + content.slice(cursor);
+}
+
+export function removeConsoleLogs(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+): string {
+  return applyEdits(content, getRemovalEdits(content, fileName, targets));
+}
+
+export function disableConsoleLogs(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+): string {
+  return applyEdits(content, getDisableEdits(content, fileName, targets));
+}
+
+export function enableConsoleLogs(content: string, fileName: string): string {
+  return applyEdits(content, getEnableEdits(content, fileName));
+}
+
+export function replaceConsoleLogs(
+  content: string,
+  fileName: string,
+  targets: CleanTargets,
+  logger: LoggerOptions,
+): string {
+  return applyEdits(content, getLoggerEdits(content, fileName, targets, logger));
+}
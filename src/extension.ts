@@ -1,71 +1,255 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { SidebarProvider } from "./sidebar";
-
-let filesWithConsoleLogs: Map<string, number> = new Map();
+import { FileConsoleInfo, SidebarProvider } from "./sidebar";
+import { ResultNode, ResultsTreeProvider, getNodeUri } from "./resultsTree";
+import { ConsoleCodeLensProvider, EditorFeedback } from "./editorFeedback";
+import { CleanOnSave } from "./cleanOnSave";
+import { CleanPreviewProvider, CleanResult } from "./preview";
+import { toWorkspaceEdit } from "./edits";
+import {
+  ConsoleCodeActionProvider,
+  ConsoleDiagnostics,
+  DiagnosticSeverityName,
+} from "./diagnostics";
+import { ScanCache } from "./scanCache";
+import { Limiter } from "./concurrency";
+import { FileFilter } from "./fileFilter";
+import { walkFiles } from "./walker";
+import { installPreCommitHook } from "./hooks";
+import {
+  REPORT_EXTENSIONS,
+  REPORT_FORMATS,
+  ReportFile,
+  ReportFormat,
+  formatReport,
+} from "./report";
+import { StatsDashboard } from "./dashboard";
+import { ScanSnapshot, StatsHistory, summarizeScan } from "./statsHistory";
+import {
+  CleanMode,
+  DEFAULT_CONSOLE_METHODS,
+  DEFAULT_FILE_EXTENSIONS,
+  DEFAULT_IGNORE_FOLDERS,
+  DEFAULT_LOGGER_MAPPINGS,
+  LoggerImportSetting,
+  getLoggerOptions,
+} from "./settings";
+import { CleanSnapshotStore, SnapshotEntry, hashContent } from "./snapshots";
+import {
+  FilePolicy,
+  PROJECT_CONFIG_FILES,
+  ProjectConfig,
+  loadProjectConfig,
+} from "./projectConfig";
+import {
+  ChangedFiles,
+  GIT_SCOPES,
+  GitScope,
+  GitScopeOptions,
+  describeScope,
+  getChangedFiles,
+} from "./git";
+import {
+  CleanRule,
+  CleanTargets,
+  ConsoleCall,
+  SourceEdit,
+  applyEdits,
+  ScanResult,
+  scanSource,
+  getDisableEdits,
+  getEnableEdits,
+  getLoggerEdits,
+  getRemovalEdits,
+  getRuleErrors,
+} from "./engine";
+
+let filesWithConsoleLogs: Map<string, ConsoleCall[]> = new Map();
+// Calls skipped by suppression comments, per file
+let suppressedCounts: Map<string, number> = new Map();
+// Statements commented out by "Disable Console Logs", per file
+let disabledCounts: Map<string, number> = new Map();
+// Last-modified time of each scanned file, for sorting the sidebar
+const modifiedTimes = new Map<string, number>();
 let sidebarProviderInstance: SidebarProvider | undefined;
-
-// Helper function to get configuration
-function getConfig() {
-  const config = vscode.workspace.getConfiguration("consoleCleaner");
+let resultsTreeInstance: ResultsTreeProvider | undefined;
+let previewProviderInstance: CleanPreviewProvider | undefined;
+let snapshotStore: CleanSnapshotStore | undefined;
+let diagnosticsInstance: ConsoleDiagnostics | undefined;
+let editorFeedback: EditorFeedback | undefined;
+let statsHistory: StatsHistory | undefined;
+let dashboardInstance: StatsDashboard | undefined;
+let scanCache: ScanCache | undefined;
+let outputChannel: vscode.OutputChannel | undefined;
+// One filter per workspace folder, rebuilt when settings or .gitignore change
+const fileFilters = new Map<string, FileFilter>();
+// `.consolecleanerrc` per workspace folder, reloaded on every scan
+const projectConfigs = new Map<string, ProjectConfig>();
+// Files and lines targeted by the last scan; undefined when scanning all files
+let gitScope: { options: GitScopeOptions; files: ChangedFiles } | undefined;
+
+// Languages that quick fixes and CodeLens are offered for
+const DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+  { scheme: "file", language: "javascript" },
+  { scheme: "file", language: "javascriptreact" },
+  { scheme: "file", language: "typescript" },
+  { scheme: "file", language: "typescriptreact" },
+  // Script blocks in markup, when their extensions are scanned
+  { scheme: "file", language: "vue" },
+  { scheme: "file", language: "svelte" },
+  { scheme: "file", language: "astro" },
+  { scheme: "file", language: "html" },
+  { scheme: "file", language: "markdown" },
+  { scheme: "file", language: "mdx" },
+];
+
+// Maximum number of concurrent file operations while scanning and cleaning
+const SCAN_CONCURRENCY = 16;
+const CLEAN_CONCURRENCY = 4;
+
+// Helper function to get configuration, optionally for a specific folder or
+// file so that per-folder settings in multi-root workspaces are honored
+function getConfig(scope?: vscode.ConfigurationScope) {
+  const config = vscode.workspace.getConfiguration("consoleCleaner", scope);
   return {
-    ignoreFolders: config.get<string[]>("ignoreFolders", [
-      "node_modules",
-      "build",
-      "dist",
-      ".next",
-      "out",
-      "coverage",
-      ".git",
-      ".vscode",
-      "vendor",
-      "tmp",
-      "temp",
-    ]),
-    fileExtensions: config.get<string[]>("fileExtensions", [
-      ".js",
-      ".jsx",
-      ".ts",
-      ".tsx",
-      ".mjs",
-      ".cjs",
-    ]),
-    consoleMethods: config.get<string[]>("consoleMethods", [
+    ignoreFolders: config.get<string[]>(
+      "ignoreFolders",
+      DEFAULT_IGNORE_FOLDERS,
+    ),
+    fileExtensions: config.get<string[]>(
+      "fileExtensions",
+      DEFAULT_FILE_EXTENSIONS,
+    ),
+    consoleMethods: config.get<string[]>(
+      "consoleMethods",
+      DEFAULT_CONSOLE_METHODS,
+    ),
+    rules: config.get<CleanRule[]>("rules", []),
+    cleanMode: config.get<CleanMode>("cleanMode", "remove"),
+    loggerMappings: config.get<Record<string, string>>(
+      "loggerMappings",
+      DEFAULT_LOGGER_MAPPINGS,
+    ),
+    loggerImport: config.get<LoggerImportSetting>("loggerImport", {}),
+    include: config.get<string[]>("include", []),
+    exclude: config.get<string[]>("exclude", []),
+    respectGitignore: config.get<boolean>("respectGitignore", true),
+    respectEditorExcludes: config.get<boolean>("respectEditorExcludes", true),
+    scope: config.get<GitScope>("scope", "all"),
+    baseBranch: config.get<string>("baseBranch", "main"),
+    changedLinesOnly: config.get<boolean>("changedLinesOnly", true),
+    autoScanOnStartup: config.get<boolean>("autoScanOnStartup", true),
+    confirmBeforeCleaning: config.get<boolean>("confirmBeforeCleaning", true),
+    previewBeforeCleaning: config.get<boolean>("previewBeforeCleaning", false),
+    diagnosticSeverity: config.get<DiagnosticSeverityName>(
+      "diagnosticSeverity",
+      "warning",
+    ),
+    highlightStatements: config.get<boolean>("highlightStatements", true),
+    highlightBackground: config.get<string>(
+      "highlightBackground",
+      "rgba(255, 196, 0, 0.15)",
+    ),
+    showGutterIcon: config.get<boolean>("showGutterIcon", true),
+    gutterIconPath: config.get<string>("gutterIconPath", ""),
+    showCodeLens: config.get<boolean>("showCodeLens", true),
+    showStatusBar: config.get<boolean>("showStatusBar", true),
+    cleanOnSave: config.get<boolean>("cleanOnSave", false),
+    cleanOnSaveMethods: config.get<string[]>("cleanOnSaveMethods", [
       "log",
-      "warn",
-      "error",
-      "info",
       "debug",
-      "trace",
-      "table",
-      "time",
-      "timeEnd",
-      "assert",
-      "count",
-      "dir",
-      "dirxml",
-      "group",
-      "groupCollapsed",
-      "groupEnd",
-      "clear",
     ]),
-    autoScanOnStartup: config.get<boolean>("autoScanOnStartup", true),
-    confirmBeforeCleaning: config.get<boolean>("confirmBeforeCleaning", true),
+    cleanOnSaveInclude: config.get<string[]>("cleanOnSaveInclude", []),
+  };
+}
+
+type CleanerConfig = ReturnType<typeof getConfig>;
+
+// The settings, narrowed by the `.consolecleanerrc` overrides matching the
+// file
+function getFilePolicy(
+  filePath: string,
+  config: CleanerConfig = getConfig(vscode.Uri.file(filePath)),
+): FilePolicy {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  const projectConfig = folder && projectConfigs.get(folder.uri.toString());
+  return projectConfig
+    ? projectConfig.resolve(filePath, config)
+    : {
+        consoleMethods: config.consoleMethods,
+        rules: config.rules,
+        ignored: false,
+      };
+}
+
+// Console methods plus the custom callee rules. Nothing is matched in
+// ignored files.
+function getCleanTargets(
+  filePath: string,
+  config?: CleanerConfig,
+): CleanTargets {
+  const policy = getFilePolicy(filePath, config);
+  return policy.ignored
+    ? { consoleMethods: [], rules: [] }
+    : { consoleMethods: policy.consoleMethods, rules: policy.rules };
+}
+
+// Returns the problems found in the config files
+async function loadProjectConfigs(
+  folders: readonly vscode.WorkspaceFolder[],
+): Promise<string[]> {
+  const results = await Promise.all(
+    folders.map(async (folder) => {
+      const { config, errors } = await loadProjectConfig(folder.uri.fsPath);
+      if (config) {
+        projectConfigs.set(folder.uri.toString(), config);
+      } else {
+        projectConfigs.delete(folder.uri.toString());
+      }
+      return errors;
+    }),
+  );
+  return results.flat();
+}
+
+// The git scope applies to the whole workspace
+function getScopeOptions(): GitScopeOptions {
+  const config = getConfig();
+  return {
+    scope: config.scope,
+    baseBranch: config.baseBranch,
+    changedLinesOnly: config.changedLinesOnly,
   };
 }
 
+// Results per file as shown by the sidebar and the results tree
+function getFileInfos(): FileConsoleInfo[] {
+  // Files whose statements are all disabled stay listed to re-enable them
+  const filePaths = new Set([
+    ...filesWithConsoleLogs.keys(),
+    ...disabledCounts.keys(),
+  ]);
+  return Array.from(filePaths).map((filePath) => {
+    const occurrences = filesWithConsoleLogs.get(filePath) ?? [];
+    return {
+      path: filePath,
+      count: occurrences.length,
+      disabled: disabledCounts.get(filePath) ?? 0,
+      occurrences,
+      policy: getFilePolicy(filePath).label,
+      modified: modifiedTimes.get(filePath) ?? 0,
+    };
+  });
+}
+
 export function activate(context: vscode.ExtensionContext) {
   sidebarProviderInstance = new SidebarProvider(
     context,
-    () => {
-      return Array.from(filesWithConsoleLogs.entries()).map(
-        ([path, count]) => ({
-          path,
-          count,
-        }),
-      );
-    },
+    getFileInfos,
+    getTotalSuppressed,
+    getScopeOptions,
+    () => getConfig().cleanMode,
     openFile,
     (filePath: string) => {
       cleanSingleFileCommand(filePath);
@@ -79,6 +263,151 @@ export function activate(context: vscode.ExtensionContext) {
     ),
   );
 
+  resultsTreeInstance = new ResultsTreeProvider(getFileInfos);
+  const resultsView = vscode.window.createTreeView(
+    ResultsTreeProvider.viewId,
+    { treeDataProvider: resultsTreeInstance, showCollapseAll: true },
+  );
+  const updateResultsBadge = () => {
+    const total = getTotalLogs();
+    resultsView.badge =
+      total > 0
+        ? { value: total, tooltip: `${total} console log(s)` }
+        : undefined;
+  };
+  context.subscriptions.push(
+    resultsTreeInstance,
+    resultsView,
+    resultsTreeInstance.onDidChangeTreeData(updateResultsBadge),
+  );
+
+  previewProviderInstance = new CleanPreviewProvider(computeClean);
+  context.subscriptions.push(
+    previewProviderInstance,
+    vscode.workspace.registerTextDocumentContentProvider(
+      CleanPreviewProvider.scheme,
+      previewProviderInstance,
+    ),
+  );
+
+  diagnosticsInstance = new ConsoleDiagnostics(
+    (document) => {
+      const config = getConfig(document.uri);
+      return {
+        targets: getCleanTargets(document.fileName, config),
+        severity: config.diagnosticSeverity,
+      };
+    },
+    shouldScanFile,
+  );
+  context.subscriptions.push(
+    diagnosticsInstance,
+    vscode.languages.registerCodeActionsProvider(
+      DOCUMENT_SELECTOR,
+      new ConsoleCodeActionProvider(
+        (document) => getCleanTargets(document.fileName),
+        // Quick fixes act on what the diagnostics show, regardless of scope
+        (document) => getCleanEdits(document, () => undefined, "remove"),
+      ),
+      {
+        providedCodeActionKinds:
+          ConsoleCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+  );
+
+  editorFeedback = new EditorFeedback(
+    vscode.Uri.joinPath(context.extensionUri, "media", "console-gutter.svg"),
+    (document) => ({
+      targets: getCleanTargets(document.fileName),
+    }),
+    shouldScanFile,
+    () => {
+      const config = getConfig();
+      return {
+        highlight: config.highlightStatements,
+        background: config.highlightBackground,
+        showGutterIcon: config.showGutterIcon,
+        gutterIconPath: config.gutterIconPath,
+        codeLens: config.showCodeLens,
+        statusBar: config.showStatusBar,
+        cleanMode: config.cleanMode,
+      };
+    },
+  );
+  context.subscriptions.push(
+    editorFeedback,
+    vscode.languages.registerCodeLensProvider(
+      DOCUMENT_SELECTOR,
+      new ConsoleCodeLensProvider(editorFeedback),
+    ),
+  );
+
+  // Opt-in removal as files are saved; the file watcher then updates the
+  // results
+  context.subscriptions.push(
+    new CleanOnSave(
+      async (document) => {
+        const config = getConfig(document.uri);
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+        if (
+          !config.cleanOnSave ||
+          !folder ||
+          savingUris.has(document.uri.toString()) ||
+          document.uri.scheme !== "file" ||
+          !(await shouldScanFile(document.fileName))
+        ) {
+          return undefined;
+        }
+        // `.consolecleanerrc` can narrow the list but never add to it
+        const policy = getFilePolicy(document.fileName, {
+          ...config,
+          consoleMethods: config.cleanOnSaveMethods,
+        });
+        if (policy.ignored) {
+          return undefined;
+        }
+        return {
+          methods: config.cleanOnSaveMethods.filter((method) =>
+            policy.consoleMethods.includes(method),
+          ),
+          include: config.cleanOnSaveInclude,
+          root: folder.uri.fsPath,
+        };
+      },
+      (_document, statements) => {
+        statsHistory
+          ?.recordClean({ timestamp: Date.now(), files: 1, statements })
+          .then(() => dashboardInstance?.refresh());
+      },
+    ),
+  );
+
+  outputChannel = vscode.window.createOutputChannel("Console Cleaner");
+  context.subscriptions.push(outputChannel);
+
+  scanCache = new ScanCache(context.workspaceState);
+  context.subscriptions.push(scanCache);
+
+  statsHistory = new StatsHistory(context.workspaceState);
+  dashboardInstance = new StatsDashboard(statsHistory, getCurrentSnapshot);
+  context.subscriptions.push(
+    dashboardInstance,
+    vscode.commands.registerCommand("consoleCleaner.showDashboard", () => {
+      dashboardInstance?.show();
+    }),
+  );
+
+  snapshotStore = new CleanSnapshotStore(
+    context.storageUri ?? context.globalStorageUri,
+  );
+
+  // Diagnostics use the project policy once it is loaded
+  loadProjectConfigs(vscode.workspace.workspaceFolders ?? []).then(() => {
+    diagnosticsInstance?.refreshAll();
+    editorFeedback?.refreshAll();
+  });
+
   // Initial scan based on configuration
   const config = getConfig();
   if (config.autoScanOnStartup) {
@@ -91,36 +420,229 @@ export function activate(context: vscode.ExtensionContext) {
   // Set up file watcher
   setupFileWatcher(context);
 
-  // Register clean project command
+  // Register clean project command. An optional `{ scope, baseBranch }`
+  // argument cleans that git scope instead of the configured one.
   context.subscriptions.push(
-    vscode.commands.registerCommand("consoleCleaner.cleanProject", async () => {
-      await cleanWorkspace();
-    }),
+    vscode.commands.registerCommand(
+      "consoleCleaner.cleanProject",
+      async (scope?: Partial<GitScopeOptions>) => {
+        if (scope?.scope !== undefined) {
+          if (!GIT_SCOPES.includes(scope.scope)) {
+            vscode.window.showErrorMessage(`Unknown scope: ${scope.scope}`);
+            return;
+          }
+          await cleanScopeOverride({ ...getScopeOptions(), ...scope });
+          return;
+        }
+        await cleanWorkspace();
+      },
+    ),
   );
 
-  // Register clean single file command
+  // Register clean single file command. Without a target it cleans the
+  // active editor; several files selected in the Explorer are cleaned in one
+  // operation.
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "consoleCleaner.cleanFile",
-      async (filePath: string) => {
+      async (target?: CommandTarget, selected?: vscode.Uri[]) => {
+        if (selected && selected.length > 1) {
+          await vscode.commands.executeCommand(
+            "consoleCleaner.cleanFiles",
+            selected.map((uri) => uri.fsPath),
+          );
+          return;
+        }
+        const filePath = getTargetPath(target);
+        if (!filePath) {
+          vscode.window.showInformationMessage("No file to clean");
+          return;
+        }
+        // Count what the editor shows, e.g. for the CodeLens, and pick up
+        // files opened outside a scan
+        const document = vscode.workspace.textDocuments.find(
+          (openDocument) => openDocument.fileName === filePath,
+        );
+        if (document?.isDirty) {
+          await updateDocumentEntry(document);
+        } else if (!filesWithConsoleLogs.has(filePath)) {
+          await updateFileEntry(filePath);
+        }
+        if (!filesWithConsoleLogs.has(filePath)) {
+          vscode.window.showInformationMessage(
+            `No console logs found in ${path.basename(filePath)}`,
+          );
+          return;
+        }
         await cleanSingleFileCommand(filePath);
       },
     ),
   );
 
+  // Register batch clean command for the files selected in the sidebar
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.cleanFiles",
+      async (filePaths: string[] = []) => {
+        const filesList = filePaths.filter((filePath) =>
+          filesWithConsoleLogs.has(filePath),
+        );
+        if (filesList.length === 0) {
+          vscode.window.showInformationMessage(
+            "No console logs found in the selected files",
+          );
+          return;
+        }
+        await cleanFiles(filesList);
+      },
+    ),
+  );
+
+  // Register disable/enable commands. Without a path they act on the
+  // active editor.
+  context.subscriptions.push(
+    vscode.commands.registerCommand("consoleCleaner.disableAll", async () => {
+      await toggleConsoleStatements(
+        "disable",
+        Array.from(filesWithConsoleLogs.keys()),
+      );
+    }),
+    vscode.commands.registerCommand("consoleCleaner.enableAll", async () => {
+      await toggleConsoleStatements(
+        "enable",
+        Array.from(disabledCounts.keys()),
+      );
+    }),
+    vscode.commands.registerCommand(
+      "consoleCleaner.disableFile",
+      async (target?: CommandTarget) => {
+        const filePath = getTargetPath(target);
+        await toggleConsoleStatements("disable", filePath ? [filePath] : []);
+      },
+    ),
+    vscode.commands.registerCommand(
+      "consoleCleaner.enableFile",
+      async (target?: CommandTarget) => {
+        const filePath = getTargetPath(target);
+        await toggleConsoleStatements("enable", filePath ? [filePath] : []);
+      },
+    ),
+  );
+
+  // Register undo last clean command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.undoLastClean",
+      async () => {
+        await undoLastClean();
+      },
+    ),
+  );
+
   // Register rescan command
   context.subscriptions.push(
     vscode.commands.registerCommand("consoleCleaner.rescan", async () => {
-      await scanWorkspace();
+      // An explicit rescan re-reads every file instead of trusting the cache
+      await scanWorkspace(undefined, false);
     }),
   );
 
+  // Register scope selection command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.selectScope",
+      async (scope?: GitScope) => {
+        await selectScope(scope);
+      },
+    ),
+  );
+
+  // Register clean mode selection command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.selectCleanMode",
+      async (mode?: CleanMode) => {
+        await selectCleanMode(mode);
+      },
+    ),
+  );
+
+  // Register pre-commit hook command
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.installPreCommitHook",
+      async (target?: vscode.Uri | vscode.WorkspaceFolder) => {
+        await installPreCommitHookCommand(target);
+      },
+    ),
+  );
+
+  // Register report export command. An optional format argument skips the
+  // format picker.
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.exportReport",
+      async (format?: ReportFormat) => {
+        await exportReport(context, format);
+      },
+    ),
+  );
+
+  // Register folder commands. A URI below a workspace folder, e.g. from the
+  // Explorer, limits them to that directory.
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "consoleCleaner.cleanFolder",
+      async (target?: FolderTarget) => {
+        const uri = isResultNode(target) ? getNodeUri(target) : target;
+        const folder = await resolveWorkspaceFolder(uri);
+        if (folder) {
+          await cleanWorkspace(folder, getSubdirectory(uri, folder));
+        }
+      },
+    ),
+    vscode.commands.registerCommand(
+      "consoleCleaner.rescanFolder",
+      async (target?: FolderTarget) => {
+        const uri = isResultNode(target) ? getNodeUri(target) : target;
+        const folder = await resolveWorkspaceFolder(uri);
+        if (!folder) {
+          return;
+        }
+        const directory = getSubdirectory(uri, folder);
+        // Scoped scans only read changed files, so they cover the folder
+        if (directory && !gitScope) {
+          await scanDirectory(folder, directory);
+        } else {
+          await scanWorkspace(folder);
+        }
+      },
+    ),
+  );
+
+  // Only offer the editor title action for files that would be scanned
+  const updateFileExtensionsContext = () =>
+    vscode.commands.executeCommand(
+      "setContext",
+      "consoleCleaner.fileExtensions",
+      getConfig().fileExtensions,
+    );
+  updateFileExtensionsContext();
+
   // Listen for configuration changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
-      if (e.affectsConfiguration("consoleCleaner")) {
+      if (
+        e.affectsConfiguration("consoleCleaner") ||
+        e.affectsConfiguration("files.exclude") ||
+        e.affectsConfiguration("search.exclude")
+      ) {
         // Re-scan when configuration changes
+        updateFileExtensionsContext();
+        fileFilters.clear();
         scanWorkspace();
+        diagnosticsInstance?.refreshAll();
+        editorFeedback?.refreshAll();
       }
     }),
   );
@@ -132,36 +654,296 @@ function setupFileWatcher(context: vscode.ExtensionContext) {
   const pattern = `**/*.{${extensions.join(",")}}`;
   const fileSystemWatcher = vscode.workspace.createFileSystemWatcher(pattern);
 
-  let scanTimeout: NodeJS.Timeout | undefined;
-  const debouncedScan = () => {
-    if (scanTimeout) {
-      clearTimeout(scanTimeout);
+  // Only the file that changed is re-read, debounced per path
+  const pendingUpdates = new Map<string, NodeJS.Timeout>();
+  const debouncedUpdate = (uri: vscode.Uri) => {
+    const pending = pendingUpdates.get(uri.fsPath);
+    if (pending) {
+      clearTimeout(pending);
     }
-    scanTimeout = setTimeout(() => {
-      scanWorkspace();
-    }, 2000);
+    pendingUpdates.set(
+      uri.fsPath,
+      setTimeout(() => {
+        pendingUpdates.delete(uri.fsPath);
+        updateFileEntry(uri.fsPath);
+      }, 500),
+    );
   };
 
-  fileSystemWatcher.onDidCreate(debouncedScan);
-  fileSystemWatcher.onDidChange(debouncedScan);
+  fileSystemWatcher.onDidCreate(debouncedUpdate);
+  fileSystemWatcher.onDidChange(debouncedUpdate);
   fileSystemWatcher.onDidDelete((uri) => {
-    filesWithConsoleLogs.delete(uri.fsPath);
-    if (sidebarProviderInstance) {
-      sidebarProviderInstance.refresh();
+    deleteFileResult(uri.fsPath);
+    scanCache?.delete(uri.fsPath);
+    refreshResultViews();
+  });
+
+  // Changed ignore rules apply to the next file event or scan
+  const gitignoreWatcher =
+    vscode.workspace.createFileSystemWatcher("**/.gitignore");
+  const resetFilters = () => fileFilters.clear();
+  gitignoreWatcher.onDidCreate(resetFilters);
+  gitignoreWatcher.onDidChange(resetFilters);
+  gitignoreWatcher.onDidDelete(resetFilters);
+
+  // A changed policy can change the results of every file in the folder
+  const projectConfigWatcher = vscode.workspace.createFileSystemWatcher(
+    `**/{${PROJECT_CONFIG_FILES.join(",")}}`,
+  );
+  const reloadProjectConfig = async (uri: vscode.Uri) => {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder || path.dirname(uri.fsPath) !== folder.uri.fsPath) {
+      return;
+    }
+    await scanWorkspace(folder);
+    diagnosticsInstance?.refreshAll();
+    editorFeedback?.refreshAll();
+  };
+  projectConfigWatcher.onDidCreate(reloadProjectConfig);
+  projectConfigWatcher.onDidChange(reloadProjectConfig);
+  projectConfigWatcher.onDidDelete(reloadProjectConfig);
+
+  context.subscriptions.push(
+    fileSystemWatcher,
+    gitignoreWatcher,
+    projectConfigWatcher,
+    {
+      dispose: () =>
+        pendingUpdates.forEach((pending) => clearTimeout(pending)),
+    },
+  );
+}
+
+function getFileFilter(folder: vscode.WorkspaceFolder): FileFilter {
+  const key = folder.uri.toString();
+  let filter = fileFilters.get(key);
+  if (!filter) {
+    const config = getConfig(folder.uri);
+    filter = new FileFilter(folder.uri.fsPath, {
+      ignoreFolders: config.ignoreFolders,
+      fileExtensions: config.fileExtensions,
+      include: config.include,
+      exclude: [
+        ...config.exclude,
+        ...(config.respectEditorExcludes ? getEditorExcludes(folder) : []),
+        ...(projectConfigs.get(key)?.ignoredGlobs ?? []),
+      ],
+      respectGitignore: config.respectGitignore,
+    });
+    fileFilters.set(key, filter);
+  }
+  return filter;
+}
+
+// Enabled globs from VS Code's `files.exclude` and `search.exclude`
+function getEditorExcludes(folder: vscode.WorkspaceFolder): string[] {
+  const patterns: string[] = [];
+  for (const section of ["files", "search"]) {
+    const excludes = vscode.workspace
+      .getConfiguration(section, folder.uri)
+      .get<Record<string, unknown>>("exclude", {});
+    for (const [pattern, enabled] of Object.entries(excludes)) {
+      // Conditional `{ when: ... }` entries are not supported
+      if (enabled === true && !patterns.includes(pattern)) {
+        patterns.push(pattern);
+      }
+    }
+  }
+  return patterns;
+}
+
+// Whether a path would be picked up by a scan of its workspace folder
+async function shouldScanFile(filePath: string): Promise<boolean> {
+  const folder = vscode.workspace.getWorkspaceFolder(
+    vscode.Uri.file(filePath),
+  );
+  if (!folder) {
+    return false;
+  }
+  return getFileFilter(folder).shouldScan(filePath);
+}
+
+// Refresh the results for a single file after it was created or changed
+async function updateFileEntry(filePath: string) {
+  if (!(await shouldScanFile(filePath))) {
+    // The file may have become excluded
+    if (deleteFileResult(filePath)) {
+      refreshResultViews();
+    }
+    return;
+  }
+
+  try {
+    if (gitScope) {
+      await refreshFileScope(filePath);
     }
+    const stat = await fs.promises.stat(filePath);
+    const result = await scanFile(
+      filePath,
+      stat,
+      getConfig(vscode.Uri.file(filePath)),
+      true,
+      getScopeLines(filePath),
+    );
+    setFileResult(filePath, result);
+  } catch (error) {
+    deleteFileResult(filePath);
+    scanCache?.delete(filePath);
+  }
+
+  refreshResultViews();
+}
+
+// Like updateFileEntry, for the unsaved content of an open document
+async function updateDocumentEntry(document: vscode.TextDocument) {
+  const filePath = document.fileName;
+  if (await shouldScanFile(filePath)) {
+    setFileResult(
+      filePath,
+      scanSource(
+        document.getText(),
+        filePath,
+        getCleanTargets(filePath),
+        getScopeLines(filePath),
+      ),
+    );
+  } else {
+    deleteFileResult(filePath);
+  }
+  refreshResultViews();
+}
+
+// Menus and views pass a URI, the results tree its node and the sidebar a
+// plain path
+type CommandTarget = string | vscode.Uri | ResultNode;
+type FolderTarget = vscode.Uri | vscode.WorkspaceFolder | ResultNode;
+
+function isResultNode(target: unknown): target is ResultNode {
+  return !!target && typeof target === "object" && "kind" in target;
+}
+
+// The file a command targets, falling back to the active editor
+function getTargetPath(target?: CommandTarget): string | undefined {
+  if (typeof target === "string") {
+    return target;
+  }
+  if (target instanceof vscode.Uri) {
+    return target.fsPath;
+  }
+  if (target) {
+    return getNodeUri(target).fsPath;
+  }
+  const document = vscode.window.activeTextEditor?.document;
+  return document?.uri.scheme === "file" ? document.fileName : undefined;
+}
+
+// The directory a URI names when it lies below the workspace folder root
+function getSubdirectory(
+  target: vscode.Uri | vscode.WorkspaceFolder | undefined,
+  folder: vscode.WorkspaceFolder,
+): string | undefined {
+  if (!(target instanceof vscode.Uri)) {
+    return undefined;
+  }
+  return target.fsPath !== folder.uri.fsPath ? target.fsPath : undefined;
+}
+
+function isInDirectory(filePath: string, directory: string): boolean {
+  const relativePath = path.relative(directory, filePath);
+  return (
+    !!relativePath &&
+    relativePath.split(path.sep)[0] !== ".." &&
+    !path.isAbsolute(relativePath)
+  );
+}
+
+// Accepts a workspace folder or a URI inside one; asks the user to pick a
+// folder when called without an argument
+async function resolveWorkspaceFolder(
+  target?: vscode.Uri | vscode.WorkspaceFolder,
+): Promise<vscode.WorkspaceFolder | undefined> {
+  if (target instanceof vscode.Uri) {
+    return vscode.workspace.getWorkspaceFolder(target);
+  }
+  if (target) {
+    return target;
+  }
+  return vscode.window.showWorkspaceFolderPick({
+    placeHolder: "Select a workspace folder",
   });
+}
 
-  context.subscriptions.push(fileSystemWatcher);
+function isInFolder(
+  filePath: string,
+  folder: vscode.WorkspaceFolder,
+): boolean {
+  const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  return owner?.uri.toString() === folder.uri.toString();
 }
 
-async function scanWorkspace() {
+async function scanWorkspace(
+  folder?: vscode.WorkspaceFolder,
+  useCache = true,
+) {
   const workspace = vscode.workspace.workspaceFolders;
   if (!workspace || workspace.length === 0) {
     vscode.window.showWarningMessage("No workspace folder open");
     return;
   }
 
-  filesWithConsoleLogs.clear();
+  const folders = folder ? [folder] : workspace;
+
+  if (folder) {
+    const filePaths = new Set([
+      ...filesWithConsoleLogs.keys(),
+      ...suppressedCounts.keys(),
+      ...disabledCounts.keys(),
+    ]);
+    for (const filePath of filePaths) {
+      if (isInFolder(filePath, folder)) {
+        deleteFileResult(filePath);
+      }
+    }
+  } else {
+    filesWithConsoleLogs.clear();
+    suppressedCounts.clear();
+    disabledCounts.clear();
+    modifiedTimes.clear();
+  }
+
+  // Pick up .gitignore, exclude and .consolecleanerrc changes made since the
+  // last scan
+  const configErrors = await loadProjectConfigs(folders);
+  for (const workspaceFolder of folders) {
+    fileFilters.delete(workspaceFolder.uri.toString());
+  }
+
+  // Invalid rules are skipped; say why instead of silently matching nothing
+  const ruleErrors = new Set([
+    ...configErrors,
+    ...folders.flatMap((workspaceFolder) =>
+      getRuleErrors(getConfig(workspaceFolder.uri).rules),
+    ),
+  ]);
+  if (ruleErrors.size > 0) {
+    vscode.window.showWarningMessage(
+      `Console Cleaner: ${Array.from(ruleErrors).join("; ")}`,
+    );
+  }
+
+  const scope = getScopeOptions();
+  if (scope.scope === "all") {
+    gitScope = undefined;
+  } else if (folder && gitScope) {
+    gitScope.options = scope;
+    for (const filePath of Array.from(gitScope.files.keys())) {
+      if (isInFolder(filePath, folder)) {
+        gitScope.files.delete(filePath);
+      }
+    }
+  } else {
+    gitScope = { options: scope, files: new Map() };
+  }
 
   if (sidebarProviderInstance) {
     sidebarProviderInstance.setScanning(true);
@@ -170,34 +952,93 @@ async function scanWorkspace() {
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
-      title: "Scanning for console logs...",
-      cancellable: false,
+      title: folder
+        ? `Scanning ${folder.name} for console logs...`
+        : "Scanning for console logs...",
+      cancellable: true,
     },
-    async (progress) => {
+    async (progress, token) => {
       try {
-        await scanDir(workspace[0].uri.fsPath, progress);
+        const options: ScanOptions = {
+          progress,
+          token,
+          limiter: new Limiter(SCAN_CONCURRENCY),
+          useCache,
+          scanned: new Set<string>(),
+        };
+        await Promise.all(
+          folders.map(async (workspaceFolder) => {
+            const config = getConfig(workspaceFolder.uri);
+            const filter = getFileFilter(workspaceFolder);
+            if (scope.scope === "all") {
+              await scanDir(workspaceFolder.uri.fsPath, config, filter, options);
+              return;
+            }
+            const changes = await getFolderChanges(workspaceFolder, scope);
+            if (changes) {
+              await scanChangedFiles(
+                changes,
+                workspaceFolder,
+                config,
+                filter,
+                options,
+              );
+            }
+          }),
+        );
+
+        // Forget cached files that were removed or are now ignored. A
+        // cancelled or scoped scan did not see every file, so nothing is
+        // pruned.
+        if (scanCache) {
+          if (!token.isCancellationRequested && scope.scope === "all") {
+            scanCache.prune(
+              (filePath) =>
+                options.scanned.has(filePath) ||
+                (!!folder && !isInFolder(filePath, folder)),
+            );
+          }
+          await scanCache.save();
+        }
+
+        // Only complete results are comparable over time
+        if (!token.isCancellationRequested && scope.scope === "all") {
+          await statsHistory?.recordScan(getCurrentSnapshot());
+        }
+        dashboardInstance?.refresh();
 
         if (sidebarProviderInstance) {
           sidebarProviderInstance.setScanning(false);
         }
-
-        if (filesWithConsoleLogs.size > 0) {
-          const totalLogs = Array.from(filesWithConsoleLogs.values()).reduce(
-            (sum, count) => sum + count,
-            0,
+        resultsTreeInstance?.refresh();
+
+        const totalLogs = getTotalLogs();
+        const scopeLabel =
+          scope.scope === "all"
+            ? ""
+            : ` (${describeScope(scope.scope, scope.baseBranch)})`;
+        if (token.isCancellationRequested) {
+          vscode.window.showWarningMessage(
+            `Scan cancelled after ${options.scanned.size} file(s). Found ${totalLogs} console log(s) in ${filesWithConsoleLogs.size} file(s) so far.`,
           );
+        } else if (filesWithConsoleLogs.size > 0) {
+          const totalSuppressed = getTotalSuppressed();
           vscode.window.showInformationMessage(
-            `Found ${totalLogs} console log(s) in ${filesWithConsoleLogs.size} file(s)`,
+            `Found ${totalLogs} console log(s) in ${filesWithConsoleLogs.size} file(s)${scopeLabel}` +
+              (totalSuppressed > 0
+                ? ` (${totalSuppressed} suppressed by comments)`
+                : ""),
           );
         } else {
           vscode.window.showInformationMessage(
-            "No console logs found in your project 🎉",
+            `No console logs found in your project${scopeLabel} 🎉`,
           );
         }
       } catch (error) {
         if (sidebarProviderInstance) {
           sidebarProviderInstance.setScanning(false);
         }
+        resultsTreeInstance?.refresh();
         vscode.window.showErrorMessage(
           `Error scanning workspace: ${error instanceof Error ? error.message : String(error)}`,
         );
@@ -206,112 +1047,607 @@ async function scanWorkspace() {
   );
 }
 
-async function scanDir(
-  dir: string,
-  progress?: vscode.Progress<{ message?: string; increment?: number }>,
-  visited: Set<string> = new Set(),
-): Promise<number> {
-  const config = getConfig();
+// Rescan one directory of a workspace folder with the current settings.
+// Unlike a full scan it does not prune the cache or record statistics.
+async function scanDirectory(
+  folder: vscode.WorkspaceFolder,
+  directory: string,
+) {
+  const name = vscode.workspace.asRelativePath(directory);
+  const filter = getFileFilter(folder);
+  if (!(await filter.shouldScanDirectory(directory))) {
+    vscode.window.showInformationMessage(
+      `${name} is excluded from scanning by your settings`,
+    );
+    return;
+  }
 
-  try {
-    const realPath = await fs.promises.realpath(dir);
-    if (visited.has(realPath)) {
-      return 0;
-    }
-    visited.add(realPath);
-  } catch (error) {
-    if (visited.has(dir)) {
-      return 0;
+  const filePaths = new Set([
+    ...filesWithConsoleLogs.keys(),
+    ...suppressedCounts.keys(),
+    ...disabledCounts.keys(),
+  ]);
+  for (const filePath of filePaths) {
+    if (isInDirectory(filePath, directory)) {
+      deleteFileResult(filePath);
     }
-    visited.add(dir);
   }
 
-  let fileCount = 0;
+  if (sidebarProviderInstance) {
+    sidebarProviderInstance.setScanning(true);
+  }
 
-  try {
-    const files = await fs.promises.readdir(dir);
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Scanning ${name} for console logs...`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const options: ScanOptions = {
+        progress,
+        token,
+        limiter: new Limiter(SCAN_CONCURRENCY),
+        useCache: false,
+        scanned: new Set<string>(),
+      };
+      try {
+        await scanDir(directory, getConfig(folder.uri), filter, options);
+        await scanCache?.save();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error scanning ${name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      dashboardInstance?.refresh();
 
-    for (const file of files) {
-      if (config.ignoreFolders.includes(file)) {
-        continue;
+      if (sidebarProviderInstance) {
+        sidebarProviderInstance.setScanning(false);
       }
+      resultsTreeInstance?.refresh();
 
-      const fullPath = path.join(dir, file);
+      const found = Array.from(filesWithConsoleLogs.keys()).filter(
+        (filePath) => isInDirectory(filePath, directory),
+      );
+      const totalLogs = getTotalLogs(found);
+      if (token.isCancellationRequested) {
+        vscode.window.showWarningMessage(
+          `Scan cancelled after ${options.scanned.size} file(s). Found ${totalLogs} console log(s) in ${found.length} file(s) so far.`,
+        );
+      } else if (found.length > 0) {
+        vscode.window.showInformationMessage(
+          `Found ${totalLogs} console log(s) in ${found.length} file(s) in ${name}`,
+        );
+      } else {
+        vscode.window.showInformationMessage(
+          `No console logs found in ${name} 🎉`,
+        );
+      }
+    },
+  );
+}
 
-      try {
-        const stat = await fs.promises.stat(fullPath);
+interface ScanOptions {
+  progress?: vscode.Progress<{ message?: string; increment?: number }>;
+  token?: vscode.CancellationToken;
+  // Bounds the number of concurrent file system operations
+  limiter: Limiter;
+  useCache: boolean;
+  // Collects every file that was looked at
+  scanned: Set<string>;
+}
 
-        if (stat.isDirectory()) {
-          fileCount += await scanDir(fullPath, progress, visited);
-        } else if (config.fileExtensions.includes(path.extname(file))) {
-          fileCount++;
-          if (progress && fileCount % 50 === 0) {
-            progress.report({
-              message: `Scanned ${fileCount} files...`,
-            });
-          }
+async function scanDir(
+  dir: string,
+  config: CleanerConfig,
+  filter: FileFilter,
+  options: ScanOptions,
+): Promise<void> {
+  const { progress, token, limiter } = options;
+
+  await walkFiles(
+    dir,
+    filter,
+    { limiter, isCancelled: () => !!token?.isCancellationRequested },
+    async (filePath, stat) => {
+      options.scanned.add(filePath);
+      if (progress && options.scanned.size % 50 === 0) {
+        progress.report({
+          message: `Scanned ${options.scanned.size} files...`,
+        });
+      }
 
-          const consoleCount = await countConsoleLogs(fullPath);
-          if (consoleCount > 0) {
-            filesWithConsoleLogs.set(fullPath, consoleCount);
-          }
+      const result = await limiter.run(() =>
+        scanFile(filePath, stat, config, options.useCache),
+      );
+      setFileResult(filePath, result);
+      if (result.calls.length > 0) {
+        // Stream partial results into the sidebar
+        scheduleSidebarRefresh();
+      }
+    },
+  );
+}
+
+// Changed files of one workspace folder in the given git scope. Git failures
+// (no repository, unknown base branch) leave the folder out of the scan.
+async function getFolderChanges(
+  folder: vscode.WorkspaceFolder,
+  scope: GitScopeOptions,
+): Promise<ChangedFiles | undefined> {
+  try {
+    return await getChangedFiles(folder.uri.fsPath, scope);
+  } catch (error) {
+    vscode.window.showWarningMessage(
+      `Could not get git changes for ${folder.name}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return undefined;
+  }
+}
+
+// Scoped counterpart of scanDir that only looks at files reported by git
+async function scanChangedFiles(
+  changes: ChangedFiles,
+  folder: vscode.WorkspaceFolder,
+  config: CleanerConfig,
+  filter: FileFilter,
+  options: ScanOptions,
+): Promise<void> {
+  const { progress, token, limiter } = options;
+
+  await Promise.all(
+    Array.from(changes).map(async ([filePath, lines]) => {
+      if (
+        token?.isCancellationRequested ||
+        !isInFolder(filePath, folder) ||
+        !(await filter.shouldScan(filePath))
+      ) {
+        return;
+      }
+      gitScope?.files.set(filePath, lines);
+
+      try {
+        const stat = await limiter.run(() => fs.promises.stat(filePath));
+        options.scanned.add(filePath);
+        if (progress && options.scanned.size % 50 === 0) {
+          progress.report({
+            message: `Scanned ${options.scanned.size} files...`,
+          });
+        }
+
+        const result = await limiter.run(() =>
+          scanFile(filePath, stat, config, options.useCache, lines ?? undefined),
+        );
+        setFileResult(filePath, result);
+        if (result.calls.length > 0) {
+          scheduleSidebarRefresh();
         }
       } catch (error) {
         // Silently skip files we can't access
       }
+    }),
+  );
+}
+
+// Re-query git for a single file so its changed lines stay current
+async function refreshFileScope(filePath: string) {
+  if (!gitScope) {
+    return;
+  }
+  try {
+    const changes = await getChangedFiles(
+      path.dirname(filePath),
+      gitScope.options,
+      [filePath],
+    );
+    const lines = changes.get(filePath);
+    if (lines === undefined) {
+      gitScope.files.delete(filePath);
+    } else {
+      gitScope.files.set(filePath, lines);
     }
   } catch (error) {
-    // Silently skip directories we can't read
+    gitScope.files.delete(filePath);
+  }
+}
+
+// Zero-based lines a scoped operation may touch in a file, or undefined when
+// the whole file is in scope
+function getScopeLines(filePath: string): ReadonlySet<number> | undefined {
+  if (!gitScope) {
+    return undefined;
+  }
+  const lines = gitScope.files.get(filePath);
+  if (lines === undefined) {
+    // Unchanged files are out of scope entirely
+    return new Set();
   }
+  return lines ?? undefined;
+}
+
+async function selectScope(scope?: GitScope) {
+  const config = getConfig();
 
-  return fileCount;
+  if (!scope) {
+    const picked = await vscode.window.showQuickPick(
+      GIT_SCOPES.map((value) => ({
+        label: describeScope(value, config.baseBranch),
+        description: value === config.scope ? "current" : undefined,
+        value,
+      })),
+      { placeHolder: "Which files should be scanned and cleaned?" },
+    );
+    if (!picked) {
+      return;
+    }
+    scope = picked.value;
+  }
+
+  const settings = vscode.workspace.getConfiguration("consoleCleaner");
+  if (scope === "branch") {
+    const baseBranch = await vscode.window.showInputBox({
+      prompt: "Branch or ref to compare against",
+      value: config.baseBranch,
+      validateInput: (value) =>
+        value.trim() ? undefined : "Enter a branch name",
+    });
+    if (baseBranch === undefined) {
+      return;
+    }
+    if (baseBranch.trim() !== config.baseBranch) {
+      await settings.update(
+        "baseBranch",
+        baseBranch.trim(),
+        vscode.ConfigurationTarget.Workspace,
+      );
+    }
+  }
+  if (scope !== config.scope) {
+    await settings.update(
+      "scope",
+      scope,
+      vscode.ConfigurationTarget.Workspace,
+    );
+  }
 }
 
-async function countConsoleLogs(filePath: string): Promise<number> {
+async function selectCleanMode(mode?: CleanMode) {
+  const config = getConfig();
+
+  if (!mode) {
+    const modes: { label: string; detail: string; value: CleanMode }[] = [
+      {
+        label: "Remove",
+        detail: "Delete console statements",
+        value: "remove",
+      },
+      {
+        label: "Replace with Logger",
+        detail: "Rewrite console calls using consoleCleaner.loggerMappings",
+        value: "logger",
+      },
+    ];
+    const picked = await vscode.window.showQuickPick(
+      modes.map((item) => ({
+        ...item,
+        description: item.value === config.cleanMode ? "current" : undefined,
+      })),
+      { placeHolder: "What should cleaning do with console statements?" },
+    );
+    if (!picked) {
+      return;
+    }
+    mode = picked.value;
+  }
+
+  if (mode !== config.cleanMode) {
+    await vscode.workspace
+      .getConfiguration("consoleCleaner")
+      .update("cleanMode", mode, vscode.ConfigurationTarget.Workspace);
+  }
+}
+
+// Re-render the sidebar and the results tree
+function refreshResultViews() {
+  if (sidebarProviderInstance) {
+    sidebarProviderInstance.refresh();
+  }
+  resultsTreeInstance?.refresh();
+}
+
+// Throttled sidebar refresh for results that arrive while an operation runs
+let sidebarRefreshTimeout: NodeJS.Timeout | undefined;
+function scheduleSidebarRefresh() {
+  if (sidebarRefreshTimeout) {
+    return;
+  }
+  sidebarRefreshTimeout = setTimeout(() => {
+    sidebarRefreshTimeout = undefined;
+    refreshResultViews();
+    dashboardInstance?.refresh();
+  }, 300);
+}
+
+// Results for one file, served from the cache while it is unchanged
+async function scanFile(
+  filePath: string,
+  stat: fs.Stats,
+  config: CleanerConfig,
+  useCache = true,
+  lines?: ReadonlySet<number>,
+): Promise<ScanResult> {
+  modifiedTimes.set(filePath, stat.mtimeMs);
+
+  // Line-scoped results depend on the diff, so they bypass the cache
+  if (lines) {
+    return readFileScanResult(filePath, config, lines);
+  }
+
+  const signature = ScanCache.signature(getCleanTargets(filePath, config));
+  const cached = useCache ? scanCache?.get(filePath, stat, signature) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  const result = await readFileScanResult(filePath, config);
+  scanCache?.set(filePath, stat, signature, result);
+  return result;
+}
+
+async function readFileScanResult(
+  filePath: string,
+  config: CleanerConfig = getConfig(vscode.Uri.file(filePath)),
+  lines: ReadonlySet<number> | undefined = getScopeLines(filePath),
+): Promise<ScanResult> {
   try {
-    const config = getConfig();
     const content = await fs.promises.readFile(filePath, "utf8");
-    const methods = config.consoleMethods.join("|");
-    const regex = new RegExp(`console\\s*\\.\\s*(${methods})\\s*\\(`, "gs");
-    const matches = content.match(regex);
-    return matches ? matches.length : 0;
+    return scanSource(
+      content,
+      filePath,
+      getCleanTargets(filePath, config),
+      lines,
+    );
   } catch (error) {
-    return 0;
+    return { calls: [], suppressed: 0, disabled: 0 };
   }
 }
 
-async function cleanWorkspace() {
-  const config = getConfig();
+// Record the scan result of one file
+function setFileResult(filePath: string, result: ScanResult) {
+  if (result.calls.length > 0) {
+    filesWithConsoleLogs.set(filePath, result.calls);
+  } else {
+    filesWithConsoleLogs.delete(filePath);
+  }
+  if (result.suppressed > 0) {
+    suppressedCounts.set(filePath, result.suppressed);
+  } else {
+    suppressedCounts.delete(filePath);
+  }
+  if (result.disabled > 0) {
+    disabledCounts.set(filePath, result.disabled);
+  } else {
+    disabledCounts.delete(filePath);
+  }
+}
+
+// Record the result of a file from the content an edit left, so statements
+// left behind (e.g. unsafe calls) stay listed. Edits shift lines, so the
+// changed lines are fetched again first.
+async function rescanFileResult(filePath: string, content: string) {
+  await refreshFileScope(filePath);
+  setFileResult(
+    filePath,
+    scanSource(
+      content,
+      filePath,
+      getCleanTargets(filePath),
+      getScopeLines(filePath),
+    ),
+  );
+}
+
+function deleteFileResult(filePath: string): boolean {
+  const hadCalls = filesWithConsoleLogs.delete(filePath);
+  const hadSuppressed = suppressedCounts.delete(filePath);
+  const hadDisabled = disabledCounts.delete(filePath);
+  modifiedTimes.delete(filePath);
+  return hadCalls || hadSuppressed || hadDisabled;
+}
+
+function getTotalSuppressed(): number {
+  return Array.from(suppressedCounts.values()).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+}
+
+// Statements that cleaning removes or rewrites; unsafe ones are left alone
+function getRemovableCount(filePath: string): number {
+  return (filesWithConsoleLogs.get(filePath) ?? []).filter(
+    (call) => call.safety !== "unsafe",
+  ).length;
+}
+
+function getTotalLogs(
+  filePaths: string[] = Array.from(filesWithConsoleLogs.keys()),
+): number {
+  return filePaths.reduce(
+    (sum, filePath) => sum + (filesWithConsoleLogs.get(filePath)?.length || 0),
+    0,
+  );
+}
+
+// Cleans the whole workspace, one folder, or one directory of a folder
+async function cleanWorkspace(
+  folder?: vscode.WorkspaceFolder,
+  directory?: string,
+) {
   const workspace = vscode.workspace.workspaceFolders;
   if (!workspace || workspace.length === 0) {
     vscode.window.showWarningMessage("No workspace folder open");
     return;
   }
 
-  const filesList = Array.from(filesWithConsoleLogs.keys());
+  const filesList = Array.from(filesWithConsoleLogs.keys()).filter(
+    (filePath) =>
+      (!folder || isInFolder(filePath, folder)) &&
+      (!directory || isInDirectory(filePath, directory)),
+  );
 
   if (filesList.length === 0) {
+    const name = directory
+      ? vscode.workspace.asRelativePath(directory)
+      : folder?.name;
+    vscode.window.showInformationMessage(
+      name
+        ? `No console logs found to clean in ${name}`
+        : "No console logs found to clean",
+    );
+    return;
+  }
+
+  await cleanFiles(filesList, folder?.uri);
+}
+
+// Clean another git scope once. Its files are scanned on the side, so the
+// results and the sidebar stay with the configured scope.
+async function cleanScopeOverride(options: GitScopeOptions) {
+  const workspace = vscode.workspace.workspaceFolders;
+  if (!workspace || workspace.length === 0) {
+    vscode.window.showWarningMessage("No workspace folder open");
+    return;
+  }
+
+  // Lines in scope by file; undefined for whole files
+  const scopeLines = new Map<string, ReadonlySet<number> | undefined>();
+  const calls = new Map<string, ConsoleCall[]>();
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Scanning for console logs (${describeScope(options.scope, options.baseBranch)})...`,
+    },
+    async () => {
+      const limiter = new Limiter(SCAN_CONCURRENCY);
+      await Promise.all(
+        workspace.map(async (folder) => {
+          const filter = getFileFilter(folder);
+          if (options.scope === "all") {
+            await walkFiles(
+              folder.uri.fsPath,
+              filter,
+              { limiter },
+              async (filePath) => {
+                scopeLines.set(filePath, undefined);
+              },
+            );
+            return;
+          }
+          const changes = await getFolderChanges(folder, options);
+          for (const [filePath, lines] of changes ?? []) {
+            if (
+              isInFolder(filePath, folder) &&
+              (await filter.shouldScan(filePath))
+            ) {
+              scopeLines.set(filePath, lines ?? undefined);
+            }
+          }
+        }),
+      );
+      await Promise.all(
+        Array.from(scopeLines, ([filePath, lines]) =>
+          limiter.run(async () => {
+            try {
+              const content = await fs.promises.readFile(filePath, "utf8");
+              const found = scanSource(
+                content,
+                filePath,
+                getCleanTargets(filePath),
+                lines,
+              ).calls;
+              if (found.length > 0) {
+                calls.set(filePath, found);
+              }
+            } catch (error) {
+              // Silently skip files we can't access
+            }
+          }),
+        ),
+      );
+    },
+  );
+
+  if (calls.size === 0) {
     vscode.window.showInformationMessage("No console logs found to clean");
     return;
   }
+  await cleanFiles(Array.from(calls.keys()), undefined, {
+    getLines: (filePath) =>
+      scopeLines.has(filePath) ? scopeLines.get(filePath) : new Set(),
+    getCalls: (filePath) => calls.get(filePath),
+  });
+}
 
-  const totalLogs = Array.from(filesWithConsoleLogs.values()).reduce(
-    (sum, count) => sum + count,
+// Files and lines a clean works on
+interface CleanScope {
+  getLines: (filePath: string) => ReadonlySet<number> | undefined;
+  getCalls: (filePath: string) => ConsoleCall[] | undefined;
+}
+
+// The active git scope, with the calls found by the last scan
+const scannedScope: CleanScope = {
+  getLines: getScopeLines,
+  getCalls: (filePath) => filesWithConsoleLogs.get(filePath),
+};
+
+// Clean several files in one confirmed operation that "Undo Last Clean" can
+// restore. Settings are read for `configScope`.
+async function cleanFiles(
+  filesList: string[],
+  configScope?: vscode.Uri,
+  scope: CleanScope = scannedScope,
+) {
+  const config = getConfig(configScope);
+  const totalLogs = filesList.reduce(
+    (sum, filePath) => sum + (scope.getCalls(filePath)?.length ?? 0),
     0,
   );
 
-  let confirmation = "Yes, Clean All";
-
-  if (config.confirmBeforeCleaning) {
-    const result = await vscode.window.showWarningMessage(
-      `This will remove ${totalLogs} console log(s) from ${filesList.length} file(s). This action cannot be undone. Continue?`,
+  let confirmation: string | undefined = "Yes, Clean All";
+
+  if (config.previewBeforeCleaning) {
+    confirmation = "Preview Changes";
+  } else if (config.confirmBeforeCleaning) {
+    const action =
+      config.cleanMode === "logger"
+        ? `replace ${totalLogs} console log(s) in ${filesList.length} file(s) with logger calls`
+        : `remove ${totalLogs} console log(s) from ${filesList.length} file(s)`;
+    confirmation = await vscode.window.showWarningMessage(
+      `This will ${action}. You can restore them with "Undo Last Clean". Continue?`,
       { modal: true },
       "Yes, Clean All",
+      "Preview Changes",
     );
+  }
 
-    if (result !== "Yes, Clean All") {
+  let filesToClean = filesList;
+
+  if (confirmation === "Preview Changes" && previewProviderInstance) {
+    const selected = await previewProviderInstance.pickFiles(
+      filesList.map((filePath) => ({
+        path: filePath,
+        count: scope.getCalls(filePath)?.length ?? 0,
+      })),
+      scope === scannedScope
+        ? undefined
+        : (filePath) => computeClean(filePath, scope.getLines),
+    );
+    if (!selected || selected.length === 0) {
       return;
     }
+    filesToClean = selected;
+  } else if (confirmation !== "Yes, Clean All") {
+    return;
   }
 
   if (sidebarProviderInstance) {
@@ -322,33 +1658,85 @@ async function cleanWorkspace() {
     {
       location: vscode.ProgressLocation.Notification,
       title: "Cleaning console logs...",
-      cancellable: false,
+      cancellable: true,
     },
-    async (progress) => {
+    async (progress, token) => {
       let cleanedCount = 0;
-      let errorCount = 0;
-
-      for (let i = 0; i < filesList.length; i++) {
-        const filePath = filesList[i];
-        progress.report({
-          message: `Cleaning ${i + 1}/${filesList.length}: ${path.basename(filePath)}`,
-          increment: 100 / filesList.length,
-        });
+      let processedCount = 0;
+      const modified: string[] = [];
+      const unchanged: string[] = [];
+      const failed: string[] = [];
+      const skipped: string[] = [];
+      const snapshots: SnapshotEntry[] = [];
+      let removedCount = 0;
+      const limiter = new Limiter(CLEAN_CONCURRENCY);
+
+      await Promise.all(
+        filesToClean.map((filePath) =>
+          limiter.run(async () => {
+            // Files that have not started when cancelling are left alone
+            if (token.isCancellationRequested) {
+              skipped.push(filePath);
+              return;
+            }
+
+            const result = await cleanFile(filePath, (document) =>
+              getCleanEdits(document, scope.getLines),
+            );
+            processedCount++;
+            progress.report({
+              message: `Cleaning ${processedCount}/${filesToClean.length}: ${path.basename(filePath)}`,
+              increment: 100 / filesToClean.length,
+            });
 
-        const success = await cleanFile(filePath);
-        if (success) {
-          cleanedCount++;
-          filesWithConsoleLogs.delete(filePath);
-        } else {
-          errorCount++;
+            if (result) {
+              cleanedCount++;
+              await rescanFileResult(filePath, result.cleaned);
+              if (result.cleaned !== result.original) {
+                modified.push(filePath);
+                removedCount += countRemoved(filePath, result);
+                snapshots.push({
+                  path: filePath,
+                  original: result.original,
+                  cleanedHash: hashContent(result.cleaned),
+                });
+              } else {
+                unchanged.push(filePath);
+              }
+            } else {
+              failed.push(filePath);
+            }
+            scheduleSidebarRefresh();
+          }),
+        ),
+      );
+      const errorCount = failed.length;
+
+      await statsHistory?.recordClean({
+        timestamp: Date.now(),
+        files: modified.length,
+        statements: removedCount,
+      });
+      dashboardInstance?.refresh();
+
+      if (snapshotStore && snapshots.length > 0) {
+        try {
+          await snapshotStore.save(snapshots);
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            `Could not save a snapshot for "Undo Last Clean": ${error instanceof Error ? error.message : String(error)}`,
+          );
         }
       }
 
       if (sidebarProviderInstance) {
         sidebarProviderInstance.setCleaning(false);
       }
+      resultsTreeInstance?.refresh();
 
-      if (errorCount > 0) {
+      if (token.isCancellationRequested) {
+        reportCancelledClean(modified, unchanged, failed, skipped);
+      } else if (errorCount > 0) {
         vscode.window.showWarningMessage(
           `✅ Cleaned ${cleanedCount} file(s). Failed to clean ${errorCount} file(s).`,
         );
@@ -361,32 +1749,96 @@ async function cleanWorkspace() {
   );
 }
 
-async function cleanSingleFileCommand(filePath: string): Promise<void> {
-  const config = getConfig();
-  const consoleCount = filesWithConsoleLogs.get(filePath) || 0;
+// Tell the user exactly which files a cancelled clean did and did not modify
+async function reportCancelledClean(
+  modified: string[],
+  unchanged: string[],
+  failed: string[],
+  skipped: string[],
+) {
+  const notModified = unchanged.length + failed.length + skipped.length;
+  const choice = await vscode.window.showWarningMessage(
+    `Cleaning cancelled. Modified ${modified.length} file(s); ${notModified} file(s) were not modified.`,
+    "Show Details",
+  );
+  if (choice !== "Show Details" || !outputChannel) {
+    return;
+  }
 
-  if (config.confirmBeforeCleaning) {
-    const confirmation = await vscode.window.showWarningMessage(
-      `Remove ${consoleCount} console log(s) from ${path.basename(filePath)}? This cannot be undone.`,
+  const section = (title: string, files: string[]) => {
+    outputChannel!.appendLine(`${title} (${files.length}):`);
+    for (const filePath of files) {
+      outputChannel!.appendLine(
+        `  ${vscode.workspace.asRelativePath(filePath)}`,
+      );
+    }
+  };
+
+  outputChannel.appendLine(
+    `Cleaning cancelled at ${new Date().toLocaleString()}`,
+  );
+  section("Modified", modified);
+  section("Not modified (cancelled)", skipped);
+  section("Not modified (nothing to remove)", unchanged);
+  section("Not modified (failed)", failed);
+  outputChannel.appendLine("");
+  outputChannel.show(true);
+}
+
+async function cleanSingleFileCommand(filePath: string): Promise<void> {
+  const config = getConfig(vscode.Uri.file(filePath));
+  const consoleCount = filesWithConsoleLogs.get(filePath)?.length || 0;
+
+  let confirmation: string | undefined = "Yes, Clean";
+
+  if (config.previewBeforeCleaning) {
+    confirmation = "Preview Changes";
+  } else if (config.confirmBeforeCleaning) {
+    confirmation = await vscode.window.showWarningMessage(
+      config.cleanMode === "logger"
+        ? `Replace ${consoleCount} console log(s) in ${path.basename(filePath)} with logger calls?`
+        : `Remove ${consoleCount} console log(s) from ${path.basename(filePath)}?`,
       { modal: true },
       "Yes, Clean",
+      "Preview Changes",
     );
+  }
 
-    if (confirmation !== "Yes, Clean") {
-      return;
-    }
+  if (confirmation === "Preview Changes" && previewProviderInstance) {
+    await previewProviderInstance.showDiff(filePath);
+    // Non-modal so the diff editor stays usable while deciding
+    confirmation = await vscode.window.showInformationMessage(
+      `Apply the previewed changes to ${path.basename(filePath)}?`,
+      "Yes, Clean",
+      "Cancel",
+    );
+  }
+
+  if (confirmation !== "Yes, Clean") {
+    return;
   }
 
   if (sidebarProviderInstance) {
     sidebarProviderInstance.setCleaning(true);
   }
 
-  const success = await cleanFile(filePath);
-
-  if (success) {
-    filesWithConsoleLogs.delete(filePath);
+  const removable = getRemovableCount(filePath);
+  const unsafe = consoleCount - removable;
+  const result = await cleanFile(filePath);
+
+  if (result) {
+    await rescanFileResult(filePath, result.cleaned);
+    if (result.cleaned !== result.original) {
+      await statsHistory?.recordClean({
+        timestamp: Date.now(),
+        files: 1,
+        statements: countRemoved(filePath, result),
+      });
+      dashboardInstance?.refresh();
+    }
     vscode.window.showInformationMessage(
-      `✅ Cleaned console logs from ${path.basename(filePath)}`,
+      `✅ Cleaned console logs from ${path.basename(filePath)}` +
+        (unsafe > 0 ? ` (${unsafe} left for manual review)` : ""),
     );
   } else {
     vscode.window.showErrorMessage(
@@ -397,87 +1849,458 @@ async function cleanSingleFileCommand(filePath: string): Promise<void> {
   if (sidebarProviderInstance) {
     sidebarProviderInstance.setCleaning(false);
   }
+  resultsTreeInstance?.refresh();
 }
 
-async function cleanFile(filePath: string): Promise<boolean> {
+async function computeClean(
+  filePath: string,
+  getLines = getScopeLines,
+): Promise<CleanResult | undefined> {
   try {
-    const content = await fs.promises.readFile(filePath, "utf8");
-    const cleaned = removeConsoleLogs(content);
+    // Read through VS Code so unsaved editor changes are taken into account
+    const document = await vscode.workspace.openTextDocument(filePath);
+    const original = document.getText();
+    const cleaned = applyEdits(original, getCleanEdits(document, getLines));
+    return { original, cleaned };
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Edits for the lines `getLines` puts in scope, by default those of the
+// active git scope
+function getCleanEdits(
+  document: vscode.TextDocument,
+  getLines = getScopeLines,
+  mode?: CleanMode,
+): SourceEdit[] {
+  const config = getConfig(document.uri);
+  const lines = getLines(document.fileName);
+
+  if ((mode ?? config.cleanMode) === "logger") {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    return getLoggerEdits(
+      document.getText(),
+      document.fileName,
+      getCleanTargets(document.fileName, config),
+      getLoggerOptions(
+        config,
+        folder ? folder.uri.fsPath : path.dirname(document.fileName),
+        document.fileName,
+      ),
+      lines,
+    );
+  }
+  return getRemovalEdits(
+    document.getText(),
+    document.fileName,
+    getCleanTargets(document.fileName, config),
+    lines,
+  );
+}
 
-    if (cleaned !== content) {
-      await fs.promises.writeFile(filePath, cleaned, "utf8");
-      return true;
+// Documents being saved by applyDocumentEdits, by URI. Clean on save leaves
+// them alone, or it would strip the statements a re-enable or undo restored.
+const savingUris = new Set<string>();
+
+// Apply edits as a WorkspaceEdit so they land on the editor's undo stack.
+// Documents that had no unsaved changes are saved afterwards.
+async function applyDocumentEdits(
+  document: vscode.TextDocument,
+  edits: SourceEdit[],
+): Promise<boolean> {
+  const wasDirty = document.isDirty;
+  const workspaceEdit = toWorkspaceEdit(document, edits);
+
+  if (!(await vscode.workspace.applyEdit(workspaceEdit))) {
+    return false;
+  }
+  if (!wasDirty) {
+    const uri = document.uri.toString();
+    savingUris.add(uri);
+    try {
+      return await document.save();
+    } finally {
+      savingUris.delete(uri);
     }
-    return true;
+  }
+  return true;
+}
+
+async function cleanFile(
+  filePath: string,
+  getEdits: (document: vscode.TextDocument) => SourceEdit[] = getCleanEdits,
+): Promise<CleanResult | undefined> {
+  try {
+    const document = await vscode.workspace.openTextDocument(filePath);
+    const original = document.getText();
+    const edits = getEdits(document);
+    const cleaned = applyEdits(original, edits);
+
+    if (cleaned !== original && !(await applyDocumentEdits(document, edits))) {
+      return undefined;
+    }
+    return { original, cleaned };
   } catch (error) {
-    return false;
+    return undefined;
   }
 }
 
-function removeConsoleLogs(content: string): string {
-  const config = getConfig();
-  const methods = config.consoleMethods.join("|");
-  let result = content;
+// Statements a clean removed or replaced, going by what its edits did to the
+// file rather than by earlier scan results
+function countRemoved(filePath: string, result: CleanResult): number {
+  const targets = getCleanTargets(filePath);
+  return (
+    scanSource(result.original, filePath, targets).calls.length -
+    scanSource(result.cleaned, filePath, targets).calls.length
+  );
+}
 
-  // Pattern 1: Single-line console statements
-  const singleLinePattern = new RegExp(
-    `^[ \\t]*console\\s*\\.\\s*(${methods})\\s*\\([^;]*\\)\\s*;?\\s*$`,
-    "gm",
+type ToggleAction = "disable" | "enable";
+
+function getToggleEdits(
+  document: vscode.TextDocument,
+  action: ToggleAction,
+): SourceEdit[] {
+  if (action === "enable") {
+    return getEnableEdits(document.getText(), document.fileName);
+  }
+  return getDisableEdits(
+    document.getText(),
+    document.fileName,
+    getCleanTargets(document.fileName),
+    getScopeLines(document.fileName),
   );
-  result = result.replace(singleLinePattern, "");
+}
+
+// Comment console statements out with a marker, or restore them. Both are
+// reversible, so there is no confirmation.
+async function toggleConsoleStatements(
+  action: ToggleAction,
+  filePaths: string[],
+): Promise<void> {
+  if (filePaths.length === 0) {
+    vscode.window.showInformationMessage(
+      action === "disable"
+        ? "No console logs to disable"
+        : "No disabled console logs to re-enable",
+    );
+    return;
+  }
+
+  if (sidebarProviderInstance) {
+    sidebarProviderInstance.setCleaning(true);
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title:
+        action === "disable"
+          ? "Disabling console logs..."
+          : "Re-enabling console logs...",
+      cancellable: true,
+    },
+    async (_progress, token) => {
+      let changedCount = 0;
+      let errorCount = 0;
+      const limiter = new Limiter(CLEAN_CONCURRENCY);
+
+      await Promise.all(
+        filePaths.map((filePath) =>
+          limiter.run(async () => {
+            if (token.isCancellationRequested) {
+              return;
+            }
+
+            const result = await cleanFile(filePath, (document) =>
+              getToggleEdits(document, action),
+            );
+            if (!result) {
+              errorCount++;
+              return;
+            }
+            if (result.cleaned !== result.original) {
+              changedCount++;
+            }
+            await rescanFileResult(filePath, result.cleaned);
+            scheduleSidebarRefresh();
+          }),
+        ),
+      );
 
-  // Pattern 2: Multi-line console statements with nested parentheses
-  const multiLinePattern = new RegExp(
-    `^[ \\t]*console\\s*\\.\\s*(${methods})\\s*\\([^)]*(?:\\([^)]*\\)[^)]*)*\\)\\s*;?\\s*$`,
-    "gm",
+      if (sidebarProviderInstance) {
+        sidebarProviderInstance.setCleaning(false);
+      }
+      resultsTreeInstance?.refresh();
+
+      const verb = action === "disable" ? "Disabled" : "Re-enabled";
+      if (errorCount > 0) {
+        vscode.window.showWarningMessage(
+          `${verb} console logs in ${changedCount} file(s). Failed to update ${errorCount} file(s).`,
+        );
+      } else {
+        vscode.window.showInformationMessage(
+          `${action === "disable" ? "🔇" : "🔊"} ${verb} console logs in ${changedCount} file(s)`,
+        );
+      }
+    },
   );
-  result = result.replace(multiLinePattern, "");
+}
 
-  // Pattern 3: Complex multi-line - iterative approach
-  let previousResult = "";
-  let iterations = 0;
-  const maxIterations = 5;
+async function undoLastClean(): Promise<void> {
+  const entries = snapshotStore ? await snapshotStore.load() : [];
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("No previous clean to restore");
+    return;
+  }
 
-  while (previousResult !== result && iterations < maxIterations) {
-    previousResult = result;
+  const documents = new Map<string, vscode.TextDocument>();
+  const changed: string[] = [];
+  for (const entry of entries) {
+    try {
+      const document = await vscode.workspace.openTextDocument(entry.path);
+      documents.set(entry.path, document);
+      if (hashContent(document.getText()) !== entry.cleanedHash) {
+        changed.push(entry.path);
+      }
+    } catch (error) {
+      // File was deleted or moved since the clean
+      changed.push(entry.path);
+    }
+  }
+
+  let toRestore = entries;
 
-    const complexPattern = new RegExp(
-      `console\\s*\\.\\s*(${methods})\\s*\\([^;{}]*?\\)\\s*;?`,
-      "gs",
+  if (changed.length > 0) {
+    const result = await vscode.window.showWarningMessage(
+      `${changed.length} of ${entries.length} file(s) changed since the last clean. Restoring them will discard those changes.`,
+      {
+        modal: true,
+        detail: changed
+          .map((filePath) => vscode.workspace.asRelativePath(filePath))
+          .join("\n"),
+      },
+      "Restore All",
+      "Skip Changed Files",
+    );
+    if (result === "Skip Changed Files") {
+      toRestore = entries.filter((entry) => !changed.includes(entry.path));
+    } else if (result !== "Restore All") {
+      return;
+    }
+  } else {
+    const result = await vscode.window.showWarningMessage(
+      `Restore ${entries.length} file(s) to their content before the last clean?`,
+      { modal: true },
+      "Restore",
     );
+    if (result !== "Restore") {
+      return;
+    }
+  }
 
-    result = result.replace(complexPattern, (match) => {
-      if (!match.includes("{") && !match.includes("function")) {
-        return "";
+  let restoredCount = 0;
+  let errorCount = 0;
+
+  for (const entry of toRestore) {
+    try {
+      const document = documents.get(entry.path);
+      let success = true;
+      if (document) {
+        success = await applyDocumentEdits(document, [
+          { start: 0, end: document.getText().length, text: entry.original },
+        ]);
+      } else {
+        // Recreate files that were deleted since the clean
+        await fs.promises.writeFile(entry.path, entry.original, "utf8");
       }
-      return match;
-    });
+      if (success) {
+        restoredCount++;
+        setFileResult(entry.path, await readFileScanResult(entry.path));
+      } else {
+        errorCount++;
+      }
+    } catch (error) {
+      errorCount++;
+    }
+  }
 
-    iterations++;
+  if (snapshotStore && errorCount === 0) {
+    await snapshotStore.clear();
   }
 
-  // Pattern 4: Commented console statements
-  const commentedPattern = new RegExp(
-    `^[ \\t]*\\/\\/\\s*console\\s*\\.\\s*(${methods})\\s*\\(.*$`,
-    "gm",
-  );
-  result = result.replace(commentedPattern, "");
+  refreshResultViews();
+
+  if (errorCount > 0) {
+    vscode.window.showWarningMessage(
+      `Restored ${restoredCount} file(s). Failed to restore ${errorCount} file(s).`,
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `↩️ Restored ${restoredCount} file(s) from the last clean`,
+    );
+  }
+}
+
+async function installPreCommitHookCommand(
+  target?: vscode.Uri | vscode.WorkspaceFolder,
+): Promise<void> {
+  const workspace = vscode.workspace.workspaceFolders;
+  if (!workspace || workspace.length === 0) {
+    vscode.window.showWarningMessage("No workspace folder open");
+    return;
+  }
+  const folder =
+    workspace.length === 1 && !target
+      ? workspace[0]
+      : await resolveWorkspaceFolder(target);
+  if (!folder) {
+    return;
+  }
+
+  // The CLI is compiled next to this file
+  const cliPath = path.join(__dirname, "cli.js");
+
+  try {
+    let result = await installPreCommitHook(folder.uri.fsPath, cliPath);
+    if (result.status === "conflict") {
+      const choice = await vscode.window.showWarningMessage(
+        `A pre-commit hook already exists at ${result.hookPath}. Replace it?`,
+        { modal: true },
+        "Replace",
+      );
+      if (choice !== "Replace") {
+        return;
+      }
+      result = await installPreCommitHook(folder.uri.fsPath, cliPath, true);
+    }
+    vscode.window.showInformationMessage(
+      `Installed a pre-commit hook that blocks commits adding console statements (${result.hookPath})`,
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Could not install the pre-commit hook: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// The current results with workspace-relative paths. They include the folder
+// name in multi-root workspaces.
+function getReportFiles(): ReportFile[] {
+  return Array.from(filesWithConsoleLogs, ([filePath, calls]) => ({
+    path: vscode.workspace.asRelativePath(filePath).split(path.sep).join("/"),
+    calls,
+  }));
+}
+
+function getCurrentSnapshot(): ScanSnapshot {
+  const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  return summarizeScan(getReportFiles(), isMultiRoot ? 2 : 1);
+}
+
+// Write the current scan results to a file chosen by the user
+async function exportReport(
+  context: vscode.ExtensionContext,
+  format?: ReportFormat,
+): Promise<void> {
+  const workspace = vscode.workspace.workspaceFolders;
+  if (!workspace || workspace.length === 0) {
+    vscode.window.showWarningMessage("No workspace folder open");
+    return;
+  }
+  if (format !== undefined && !REPORT_FORMATS.includes(format)) {
+    vscode.window.showErrorMessage(`Unknown report format: ${format}`);
+    return;
+  }
+
+  if (!format) {
+    const formats: { label: string; detail: string; value: ReportFormat }[] = [
+      {
+        label: "JSON",
+        detail: "Totals and every statement, for scripts",
+        value: "json",
+      },
+      {
+        label: "CSV",
+        detail: "One row per statement, for spreadsheets",
+        value: "csv",
+      },
+      {
+        label: "SARIF",
+        detail: "For code scanning dashboards such as GitHub code scanning",
+        value: "sarif",
+      },
+      {
+        label: "Markdown",
+        detail: "A summary to paste into pull requests",
+        value: "markdown",
+      },
+    ];
+    const picked = await vscode.window.showQuickPick(formats, {
+      placeHolder: "Export scan results as",
+    });
+    if (!picked) {
+      return;
+    }
+    format = picked.value;
+  }
 
-  // Pattern 5: Block comments
-  const blockCommentPattern = new RegExp(
-    `\\/\\*[\\s\\S]*?console\\s*\\.\\s*(${methods})\\s*\\([\\s\\S]*?\\*\\/`,
-    "g",
+  const extension = REPORT_EXTENSIONS[format];
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(
+      workspace[0].uri,
+      `console-cleaner-report.${extension}`,
+    ),
+    filters: { [format.toUpperCase()]: [extension] },
+    saveLabel: "Export Report",
+  });
+  if (!target) {
+    return;
+  }
+
+  const packageJSON = context.extension.packageJSON;
+  const content = formatReport(
+    {
+      files: getReportFiles(),
+      scope: describeScope(
+        gitScope?.options.scope ?? "all",
+        gitScope?.options.baseBranch ?? "",
+      ),
+      suppressed: getTotalSuppressed(),
+      disabled: Array.from(disabledCounts.values()).reduce(
+        (sum, count) => sum + count,
+        0,
+      ),
+      generatedAt: new Date(),
+    },
+    format,
+    {
+      name: packageJSON.displayName ?? packageJSON.name,
+      version: packageJSON.version,
+      informationUri: packageJSON.repository?.url,
+    },
   );
-  result = result.replace(blockCommentPattern, "");
 
-  // Clean up excessive blank lines (max 2 consecutive blank lines)
-  result = result.replace(/\n\s*\n\s*\n\s*\n/g, "\n\n\n");
-  result = result.replace(/^[ \t]+$/gm, "");
+  try {
+    await vscode.workspace.fs.writeFile(target, Buffer.from(content, "utf8"));
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Could not export the report: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
 
-  return result;
+  const choice = await vscode.window.showInformationMessage(
+    `Exported ${getTotalLogs()} console log(s) to ${path.basename(target.fsPath)}`,
+    "Open",
+  );
+  if (choice === "Open") {
+    await vscode.window.showTextDocument(target);
+  }
 }
 
-function openFile(filePath: string) {
+function openFile(filePath: string, line?: number, column?: number) {
   try {
     // Normalize the path to handle Windows paths properly
     const normalizedPath = path.normalize(filePath);
@@ -496,9 +2319,17 @@ function openFile(filePath: string) {
     // Open the document
     vscode.workspace.openTextDocument(uri).then(
       (document) => {
+        // Jump to the occurrence when a position is given
+        const position =
+          line !== undefined
+            ? document.validatePosition(new vscode.Position(line, column ?? 0))
+            : undefined;
         vscode.window.showTextDocument(document, {
           preview: false,
           preserveFocus: false,
+          selection: position
+            ? new vscode.Range(position, position)
+            : undefined,
         });
       },
       (error) => {
@@ -516,5 +2347,14 @@ function openFile(filePath: string) {
 
 export function deactivate() {
   filesWithConsoleLogs.clear();
+  suppressedCounts.clear();
+  disabledCounts.clear();
   sidebarProviderInstance = undefined;
+  previewProviderInstance = undefined;
+  snapshotStore = undefined;
+  diagnosticsInstance = undefined;
+  editorFeedback = undefined;
+  scanCache = undefined;
+  outputChannel = undefined;
+  gitScope = undefined;
 }
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as path from "path";
+import ignore, { Ignore } from "ignore";
+import { Minimatch } from "minimatch";
+
+export interface FileFilterOptions {
+  ignoreFolders: string[];
+  fileExtensions: string[];
+  // Globs relative to the root; when empty every file is included
+  include: string[];
+  exclude: string[];
+  respectGitignore: boolean;
+}
+
+// Decides which files under a root folder are scanned. Globs are matched
+// against paths relative to the root, using forward slashes.
+export class FileFilter {
+  private readonly _include: Minimatch[];
+  private readonly _exclude: Minimatch[];
+  private readonly _gitignores = new Map<
+    string,
+    Promise<Ignore | undefined>
+  >();
+
+  constructor(
+    private readonly root: string,
+    private readonly options: FileFilterOptions,
+  ) {
+    const compile = (pattern: string) => new Minimatch(pattern, { dot: true });
+    this._include = options.include.map(compile);
+    this._exclude = options.exclude.map(compile);
+  }
+
+  // Cheap check on a bare entry name, done before touching the file system
+  isNameIgnored(name: string): boolean {
+    return this.options.ignoreFolders.includes(name);
+  }
+
+  async isDirectoryExcluded(dirPath: string): Promise<boolean> {
+    const relativePath = this.relative(dirPath);
+    if (
+      this.isNameIgnored(path.basename(dirPath)) ||
+      this._exclude.some(
+        (matcher) =>
+          matcher.match(relativePath) || matcher.match(`${relativePath}/`),
+      )
+    ) {
+      return true;
+    }
+    return this.isGitIgnored(dirPath, true);
+  }
+
+  // Checks the file itself; its parent directories are assumed to be included
+  async isFileIncluded(filePath: string): Promise<boolean> {
+    const relativePath = this.relative(filePath);
+    if (
+      this.isNameIgnored(path.basename(filePath)) ||
+      !this.options.fileExtensions.includes(path.extname(filePath)) ||
+      (this._include.length > 0 &&
+        !this._include.some((matcher) => matcher.match(relativePath))) ||
+      this._exclude.some((matcher) => matcher.match(relativePath))
+    ) {
+      return false;
+    }
+    return !(await this.isGitIgnored(filePath, false));
+  }
+
+  // Full check for a single path, including every parent directory
+  async shouldScan(filePath: string): Promise<boolean> {
+    return (
+      (await this.shouldScanDirectory(path.dirname(filePath))) &&
+      this.isFileIncluded(filePath)
+    );
+  }
+
+  // Whether a directory inside the root and all of its parents are scanned
+  async shouldScanDirectory(dirPath: string): Promise<boolean> {
+    const relativePath = this.relative(dirPath);
+    if (
+      relativePath === ".." ||
+      relativePath.startsWith("../") ||
+      path.isAbsolute(relativePath)
+    ) {
+      return false;
+    }
+
+    let dir = this.root;
+    for (const segment of relativePath.split("/").filter(Boolean)) {
+      dir = path.join(dir, segment);
+      if (await this.isDirectoryExcluded(dir)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private relative(fullPath: string): string {
+    return path.relative(this.root, fullPath).split(path.sep).join("/");
+  }
+
+  // Applies the .gitignore of every directory from the root down to the
+  // entry's parent, each relative to its own directory
+  private async isGitIgnored(
+    fullPath: string,
+    isDirectory: boolean,
+  ): Promise<boolean> {
+    if (!this.options.respectGitignore) {
+      return false;
+    }
+
+    const parents: string[] = [];
+    let dir = path.dirname(fullPath);
+    while (dir.length >= this.root.length) {
+      parents.unshift(dir);
+      if (dir === this.root) {
+        break;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+
+    for (const parent of parents) {
+      const gitignore = await this.loadGitignore(parent);
+      if (!gitignore) {
+        continue;
+      }
+      const relativePath = path
+        .relative(parent, fullPath)
+        .split(path.sep)
+        .join("/");
+      if (gitignore.ignores(isDirectory ? `${relativePath}/` : relativePath)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private loadGitignore(dir: string): Promise<Ignore | undefined> {
+    let pending = this._gitignores.get(dir);
+    if (!pending) {
+      pending = fs.promises
+        .readFile(path.join(dir, ".gitignore"), "utf8")
+        .then(
+          (content) => ignore().add(content),
+          () => undefined,
+        );
+      this._gitignores.set(dir, pending);
+    }
+    return pending;
+  }
+}
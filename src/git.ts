@@ -0,0 +1,249 @@
+import { execFile } from "child_process";
+import * as path from "path";
+
+export type GitScope = "all" | "staged" | "workingTree" | "branch";
+
+export const GIT_SCOPES: GitScope[] = ["all", "staged", "workingTree", "branch"];
+
+export interface GitScopeOptions {
+  scope: GitScope;
+  // Branch or ref to compare against for the "branch" scope
+  baseBranch: string;
+  // Only target added or modified lines instead of whole files
+  changedLinesOnly: boolean;
+}
+
+// Changed files by absolute path, mapped to their changed zero-based lines.
+// `null` means the whole file is in scope (e.g. untracked files).
+export type ChangedFiles = Map<string, Set<number> | null>;
+
+export function describeScope(scope: GitScope, baseBranch: string): string {
+  switch (scope) {
+    case "staged":
+      return "Staged changes";
+    case "workingTree":
+      return "Working-tree changes";
+    case "branch":
+      return `Changes since ${baseBranch}`;
+    default:
+      return "All files";
+  }
+}
+
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["-c", "core.quotePath=false", ...args],
+      { cwd, maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+        } else {
+          resolve(stdout);
+        }
+      },
+    );
+  });
+}
+
+export async function getRepositoryRoot(cwd: string): Promise<string> {
+  return (await runGit(cwd, ["rev-parse", "--show-toplevel"])).trim();
+}
+
+// Honors `core.hooksPath`
+export async function getHooksDirectory(cwd: string): Promise<string> {
+  const root = await getRepositoryRoot(cwd);
+  const hooks = await runGit(root, ["rev-parse", "--git-path", "hooks"]);
+  return path.resolve(root, hooks.trim());
+}
+
+// Content of a file as staged in the index of the repository at `root`
+export function readStagedFile(root: string, filePath: string): Promise<string> {
+  const relativePath = path.relative(root, filePath).split(path.sep).join("/");
+  return runGit(root, ["show", `:${relativePath}`]);
+}
+
+// Files (and lines) changed in the given scope, for the repository that
+// contains `cwd`. `paths` narrows the query to specific files. Lines refer to
+// the working tree: staged lines are mapped through the unstaged changes,
+// unless `indexLines` asks for them as numbered in the index.
+export async function getChangedFiles(
+  cwd: string,
+  options: GitScopeOptions,
+  paths: string[] = [],
+  indexLines = false,
+): Promise<ChangedFiles> {
+  const root = await getRepositoryRoot(cwd);
+  const pathArgs = paths.length > 0 ? ["--", ...paths] : [];
+
+  let diffArgs: string[];
+  switch (options.scope) {
+    case "staged":
+      diffArgs = ["--cached"];
+      break;
+    case "workingTree":
+      diffArgs = ["HEAD"];
+      break;
+    case "branch": {
+      const base = await runGit(root, [
+        "merge-base",
+        options.baseBranch,
+        "HEAD",
+      ]);
+      diffArgs = [base.trim()];
+      break;
+    }
+    default:
+      throw new Error(`Unsupported git scope: ${options.scope}`);
+  }
+
+  const diff = await getDiff(root, [...diffArgs, ...pathArgs]);
+  // Index to working tree, for staged files edited again since
+  const unstaged =
+    options.scope === "staged" && options.changedLinesOnly && !indexLines
+      ? await getDiff(root, pathArgs)
+      : undefined;
+
+  const changes: ChangedFiles = new Map();
+  for (const [filePath, hunks] of diff) {
+    if (!options.changedLinesOnly) {
+      changes.set(filePath, null);
+      continue;
+    }
+    const lines = getAddedLines(hunks);
+    changes.set(
+      filePath,
+      unstaged ? mapLines(lines, unstaged.get(filePath) ?? []) : lines,
+    );
+  }
+
+  // New files only show up in the working tree
+  if (options.scope !== "staged") {
+    const untracked = await runGit(root, [
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+      "--full-name",
+      ...pathArgs,
+    ]);
+    for (const file of untracked.split("\n")) {
+      if (file) {
+        changes.set(path.join(root, file), null);
+      }
+    }
+  }
+
+  return changes;
+}
+
+// Stage the working-tree content of a file
+export async function stageFile(root: string, filePath: string): Promise<void> {
+  await runGit(root, ["add", "--", filePath]);
+}
+
+// A changed range of lines. Starts are zero-based; for an empty side they
+// point to the line following the change.
+interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+async function getDiff(
+  root: string,
+  args: string[],
+): Promise<Map<string, Hunk[]>> {
+  const diff = await runGit(root, [
+    "diff",
+    "--no-color",
+    "--no-ext-diff",
+    "--unified=0",
+    // parseDiff expects these whatever diff.noprefix or
+    // diff.mnemonicPrefix say
+    "--src-prefix=a/",
+    "--dst-prefix=b/",
+    ...args,
+  ]);
+  return parseDiff(diff, root);
+}
+
+// Hunks by absolute path of the changed file; deleted files are left out
+function parseDiff(diff: string, root: string): Map<string, Hunk[]> {
+  const files = new Map<string, Hunk[]>();
+  let hunks: Hunk[] | undefined;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      const target = unquote(line.slice(4).replace(/\t$/, ""));
+      hunks = undefined;
+      if (target !== "/dev/null") {
+        hunks = [];
+        files.set(path.join(root, target.replace(/^b\//, "")), hunks);
+      }
+      continue;
+    }
+
+    const hunk = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk && hunks) {
+      const oldCount = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      const newCount = hunk[4] === undefined ? 1 : Number(hunk[4]);
+      // Git numbers an empty side by the line before it
+      hunks.push({
+        oldStart: Number(hunk[1]) - (oldCount > 0 ? 1 : 0),
+        oldCount,
+        newStart: Number(hunk[3]) - (newCount > 0 ? 1 : 0),
+        newCount,
+      });
+    }
+  }
+
+  return files;
+}
+
+function getAddedLines(hunks: Hunk[]): Set<number> {
+  const lines = new Set<number>();
+  for (const { newStart, newCount } of hunks) {
+    for (let i = 0; i < newCount; i++) {
+      lines.add(newStart + i);
+    }
+  }
+  return lines;
+}
+
+// Renumber lines of the old side of `hunks` as lines of the new side. Lines
+// the hunks replace are dropped.
+function mapLines(lines: Set<number>, hunks: Hunk[]): Set<number> {
+  const mapped = new Set<number>();
+  for (const line of lines) {
+    let offset = 0;
+    let isReplaced = false;
+    for (const hunk of hunks) {
+      if (line < hunk.oldStart) {
+        break;
+      }
+      if (line < hunk.oldStart + hunk.oldCount) {
+        isReplaced = true;
+        break;
+      }
+      offset += hunk.newCount - hunk.oldCount;
+    }
+    if (!isReplaced) {
+      mapped.add(line + offset);
+    }
+  }
+  return mapped;
+}
+
+// Git quotes paths with unusual characters as C-style strings
+function unquote(value: string): string {
+  if (!value.startsWith('"')) {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value.slice(1, -1);
+  }
+}
@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getHooksDirectory } from "./git";
+
+// Identifies hooks written by us, which can be replaced without asking
+const HOOK_MARKER = "# console-cleaner pre-commit hook";
+
+export interface HookInstallResult {
+  hookPath: string;
+  // "conflict" when another pre-commit hook exists and `force` was not set
+  status: "installed" | "conflict";
+}
+
+// Prefers a project-local CLI and falls back to the one shipped with the
+// extension. The commit is not blocked when neither is available.
+function getPreCommitHookScript(cliPath: string): string {
+  const quotedPath = cliPath
+    .split(path.sep)
+    .join("/")
+    .replace(/(["\\$`])/g, "\\$1");
+
+  return `#!/bin/sh
+${HOOK_MARKER}
+# Blocks commits that add console statements. Bypass with --no-verify.
+if [ -x node_modules/.bin/console-cleaner ]; then
+  exec node_modules/.bin/console-cleaner check --staged
+fi
+CLI="${quotedPath}"
+if [ -f "$CLI" ]; then
+  exec node "$CLI" check --staged
+fi
+echo "console-cleaner: CLI not found, skipping the console statement check" >&2
+exit 0
+`;
+}
+
+export async function installPreCommitHook(
+  cwd: string,
+  cliPath: string,
+  force = false,
+): Promise<HookInstallResult> {
+  const hooksDirectory = await getHooksDirectory(cwd);
+  const hookPath = path.join(hooksDirectory, "pre-commit");
+
+  // e.g. `core.hooksPath=/dev/null` to disable hooks
+  const stat = await fs.promises.stat(hooksDirectory).catch(() => undefined);
+  if (stat && !stat.isDirectory()) {
+    throw new Error(
+      `Git hooks path ${hooksDirectory} is not a directory (check core.hooksPath)`,
+    );
+  }
+
+  try {
+    const existing = await fs.promises.readFile(hookPath, "utf8");
+    if (!existing.includes(HOOK_MARKER) && !force) {
+      return { hookPath, status: "conflict" };
+    }
+  } catch (error) {
+    // No hook yet
+  }
+
+  await fs.promises.mkdir(hooksDirectory, { recursive: true });
+  await fs.promises.writeFile(hookPath, getPreCommitHookScript(cliPath), {
+    encoding: "utf8",
+    mode: 0o755,
+  });
+  // `mode` only applies to newly created files
+  await fs.promises.chmod(hookPath, 0o755);
+  return { hookPath, status: "installed" };
+}
@@ -0,0 +1,142 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+export interface CleanResult {
+  original: string;
+  cleaned: string;
+}
+
+type ComputeClean = (filePath: string) => Promise<CleanResult | undefined>;
+
+interface PreviewFileItem extends vscode.QuickPickItem {
+  filePath: string;
+}
+
+export class CleanPreviewProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = "console-cleaner-preview";
+
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+  // Previews opened for a clean of another scope, by preview URI
+  private readonly _computeOverrides = new Map<string, ComputeClean>();
+
+  constructor(private readonly computeClean: ComputeClean) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const computeClean =
+      this._computeOverrides.get(uri.toString()) ?? this.computeClean;
+    const result = await computeClean(uri.fsPath);
+    return result ? result.cleaned : "";
+  }
+
+  // Open VS Code's diff editor: current file on the left, cleaned on the
+  // right. `computeClean` replaces the default cleaning for this preview.
+  async showDiff(
+    filePath: string,
+    preserveFocus = false,
+    computeClean?: ComputeClean,
+  ): Promise<void> {
+    const original = vscode.Uri.file(filePath);
+    const cleaned = original.with({ scheme: CleanPreviewProvider.scheme });
+    if (computeClean) {
+      this._computeOverrides.set(cleaned.toString(), computeClean);
+    } else {
+      this._computeOverrides.delete(cleaned.toString());
+    }
+
+    // Make sure a previously opened preview picks up the latest content
+    this._onDidChange.fire(cleaned);
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      original,
+      cleaned,
+      `${path.basename(filePath)} (Original ↔ Cleaned)`,
+      { preview: true, preserveFocus },
+    );
+  }
+
+  // Let the user review each changed file and choose which ones to clean.
+  // Resolves to undefined when the picker is dismissed.
+  async pickFiles(
+    files: { path: string; count: number }[],
+    computeClean?: ComputeClean,
+  ): Promise<string[] | undefined> {
+    const items: PreviewFileItem[] = [];
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Preparing preview...",
+        cancellable: false,
+      },
+      async () => {
+        for (const file of files) {
+          if (!(await this.hasChanges(file.path, computeClean))) {
+            continue;
+          }
+          items.push({
+            filePath: file.path,
+            label: path.basename(file.path),
+            description: vscode.workspace.asRelativePath(file.path),
+            detail: `${file.count} console log${file.count !== 1 ? "s" : ""}`,
+            picked: true,
+            buttons: [
+              {
+                iconPath: new vscode.ThemeIcon("diff"),
+                tooltip: "Preview changes",
+              },
+            ],
+          });
+        }
+      },
+    );
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("No changes to preview");
+      return undefined;
+    }
+
+    return new Promise((resolve) => {
+      const quickPick = vscode.window.createQuickPick<PreviewFileItem>();
+      quickPick.title = "Review files to clean";
+      quickPick.placeholder =
+        "Uncheck files to skip them, use the diff button to preview changes";
+      quickPick.canSelectMany = true;
+      quickPick.ignoreFocusOut = true;
+      quickPick.items = items;
+      quickPick.selectedItems = items;
+
+      let accepted = false;
+
+      quickPick.onDidTriggerItemButton((e) => {
+        this.showDiff(e.item.filePath, true, computeClean);
+      });
+      quickPick.onDidAccept(() => {
+        accepted = true;
+        resolve(quickPick.selectedItems.map((item) => item.filePath));
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        if (!accepted) {
+          resolve(undefined);
+        }
+        quickPick.dispose();
+      });
+
+      quickPick.show();
+    });
+  }
+
+  private async hasChanges(
+    filePath: string,
+    computeClean = this.computeClean,
+  ): Promise<boolean> {
+    const result = await computeClean(filePath);
+    return result !== undefined && result.cleaned !== result.original;
+  }
+
+  dispose() {
+    this._onDidChange.dispose();
+  }
+}
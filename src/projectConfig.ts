@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { Minimatch } from "minimatch";
+import { CleanRule, getRuleErrors } from "./engine";
+
+// Looked up in the workspace folder root, first match wins
+export const PROJECT_CONFIG_FILES = [
+  ".consolecleanerrc",
+  ".consolecleanerrc.json",
+];
+
+// Which statements are cleaned. Unset fields are inherited.
+export interface MethodPolicy {
+  // Console methods that are removed; replaces the inherited list
+  remove?: string[];
+  // Console methods that are kept even when listed in `remove`
+  allow?: string[];
+  // Replaces the `consoleCleaner.rules` setting
+  rules?: CleanRule[];
+}
+
+export interface PolicyOverride extends MethodPolicy {
+  // Matching files are neither scanned nor cleaned
+  ignore?: boolean;
+}
+
+export interface ProjectConfigValues extends MethodPolicy {
+  // Keyed by glob relative to the config file. Every matching override
+  // applies, later ones winning.
+  overrides?: Record<string, PolicyOverride>;
+}
+
+export interface FilePolicy {
+  consoleMethods: string[];
+  rules: CleanRule[];
+  ignored: boolean;
+  // e.g. ".consolecleanerrc: src/server/**"; undefined when only the
+  // settings apply
+  label?: string;
+}
+
+// A parsed `.consolecleanerrc`. VS Code settings (or .vscode/settings.json
+// for the CLI) remain the fallback for anything it leaves out.
+export class ProjectConfig {
+  private readonly _overrides: {
+    glob: string;
+    matcher: Minimatch;
+    policy: PolicyOverride;
+  }[];
+
+  constructor(
+    private readonly root: string,
+    public readonly fileName: string,
+    private readonly values: ProjectConfigValues,
+  ) {
+    this._overrides = Object.entries(values.overrides ?? {}).map(
+      ([glob, policy]) => ({
+        glob,
+        matcher: new Minimatch(glob, { dot: true }),
+        policy,
+      }),
+    );
+  }
+
+  // Globs of ignored files, to add to the file filter's excludes
+  get ignoredGlobs(): string[] {
+    return this._overrides
+      .filter(({ policy }) => policy.ignore)
+      .map(({ glob }) => glob);
+  }
+
+  resolve(
+    filePath: string,
+    fallback: Pick<FilePolicy, "consoleMethods" | "rules">,
+  ): FilePolicy {
+    let remove = this.values.remove ?? fallback.consoleMethods;
+    let allow = this.values.allow ?? [];
+    let rules = this.values.rules ?? fallback.rules;
+    let ignored = false;
+    const matched: string[] = [];
+
+    const relativePath = path
+      .relative(this.root, filePath)
+      .split(path.sep)
+      .join("/");
+    const isInside =
+      !relativePath.startsWith("../") && !path.isAbsolute(relativePath);
+
+    for (const { glob, matcher, policy } of this._overrides) {
+      if (!isInside || !matcher.match(relativePath)) {
+        continue;
+      }
+      matched.push(glob);
+      remove = policy.remove ?? remove;
+      allow = policy.allow ?? allow;
+      rules = policy.rules ?? rules;
+      ignored = policy.ignore ?? ignored;
+    }
+
+    return {
+      consoleMethods: remove.filter((method) => !allow.includes(method)),
+      rules,
+      ignored,
+      label:
+        matched.length > 0
+          ? `${this.fileName}: ${matched.join(", ")}`
+          : this.fileName,
+    };
+  }
+}
+
+export interface LoadedProjectConfig {
+  config?: ProjectConfig;
+  // Problems found in the file; invalid entries are skipped
+  errors: string[];
+}
+
+// Reads the project config of `root`. Missing files are not an error.
+export async function loadProjectConfig(
+  root: string,
+): Promise<LoadedProjectConfig> {
+  for (const fileName of PROJECT_CONFIG_FILES) {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(path.join(root, fileName), "utf8");
+    } catch (error) {
+      continue;
+    }
+
+    // Comments and trailing commas are allowed, as in settings.json
+    const parsed = ts.parseConfigFileTextToJson(fileName, text);
+    if (parsed.error || !isObject(parsed.config)) {
+      return { errors: [`${fileName} is not a valid JSON object`] };
+    }
+
+    const errors: string[] = [];
+    const values = getPolicy(parsed.config, fileName, errors);
+    const overrides: Record<string, PolicyOverride> = {};
+    if (parsed.config.overrides !== undefined) {
+      if (isObject(parsed.config.overrides)) {
+        for (const [glob, value] of Object.entries(parsed.config.overrides)) {
+          const where = `${fileName} override "${glob}"`;
+          if (!isObject(value)) {
+            errors.push(`${where} must be an object`);
+            continue;
+          }
+          const override: PolicyOverride = getPolicy(value, where, errors);
+          if (typeof value.ignore === "boolean") {
+            override.ignore = value.ignore;
+          } else if (value.ignore !== undefined) {
+            errors.push(`${where}: "ignore" must be true or false`);
+          }
+          overrides[glob] = override;
+        }
+      } else {
+        errors.push(`${fileName}: "overrides" must be an object`);
+      }
+    }
+
+    return {
+      config: new ProjectConfig(root, fileName, { ...values, overrides }),
+      errors,
+    };
+  }
+  return { errors: [] };
+}
+
+function getPolicy(
+  value: Record<string, unknown>,
+  where: string,
+  errors: string[],
+): MethodPolicy {
+  const policy: MethodPolicy = {};
+  for (const key of ["remove", "allow"] as const) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    if (isStringArray(value[key])) {
+      policy[key] = value[key];
+    } else {
+      errors.push(`${where}: "${key}" must be a list of console methods`);
+    }
+  }
+  if (Array.isArray(value.rules)) {
+    policy.rules = value.rules as CleanRule[];
+    for (const message of getRuleErrors(policy.rules)) {
+      errors.push(`${where}: ${message}`);
+    }
+  } else if (value.rules !== undefined) {
+    errors.push(`${where}: "rules" must be a list`);
+  }
+  return policy;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
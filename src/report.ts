@@ -0,0 +1,243 @@
+import { ConsoleCall } from "./engine";
+
+export type ReportFormat = "json" | "csv" | "sarif" | "markdown";
+
+export const REPORT_FORMATS: ReportFormat[] = [
+  "json",
+  "csv",
+  "sarif",
+  "markdown",
+];
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  sarif: "sarif",
+  markdown: "md",
+};
+
+export interface ReportFile {
+  // Relative to the workspace, with forward slashes
+  path: string;
+  calls: ConsoleCall[];
+}
+
+export interface Report {
+  files: ReportFile[];
+  // e.g. "All files" or "Changes since main"
+  scope: string;
+  suppressed: number;
+  disabled: number;
+  generatedAt: Date;
+}
+
+export interface ReportTool {
+  name: string;
+  version: string;
+  informationUri?: string;
+}
+
+// SARIF rule ids; `console-statement` matches the diagnostics code
+const CONSOLE_RULE_ID = "console-statement";
+const DEBUGGING_RULE_ID = "debugging-statement";
+
+export function formatReport(
+  report: Report,
+  format: ReportFormat,
+  tool: ReportTool,
+): string {
+  // Stable order regardless of scan completion order
+  const files = report.files
+    .filter((file) => file.calls.length > 0)
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const sorted = { ...report, files };
+
+  switch (format) {
+    case "json":
+      return formatJson(sorted, tool);
+    case "csv":
+      return formatCsv(sorted);
+    case "sarif":
+      return formatSarif(sorted, tool);
+    case "markdown":
+      return formatMarkdown(sorted);
+  }
+}
+
+function getCallLabel(call: ConsoleCall): string {
+  return call.rule ? call.method : `console.${call.method}`;
+}
+
+function getTotals(report: Report) {
+  return {
+    files: report.files.length,
+    statements: report.files.reduce((sum, file) => sum + file.calls.length, 0),
+    suppressed: report.suppressed,
+    disabled: report.disabled,
+  };
+}
+
+function formatJson(report: Report, tool: ReportTool): string {
+  const json = {
+    tool: { name: tool.name, version: tool.version },
+    generatedAt: report.generatedAt.toISOString(),
+    scope: report.scope,
+    totals: getTotals(report),
+    files: report.files.map((file) => ({
+      path: file.path,
+      count: file.calls.length,
+      statements: file.calls.map((call) => ({
+        line: call.line + 1,
+        column: call.column + 1,
+        method: getCallLabel(call),
+        rule: call.rule,
+        safety: call.safety,
+        reason: call.reason,
+        snippet: call.snippet,
+      })),
+    })),
+  };
+  return JSON.stringify(json, null, 2) + "\n";
+}
+
+function formatCsv(report: Report): string {
+  // RFC 4180: quote fields containing separators, quotes or line breaks
+  const field = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = [
+    ["file", "line", "column", "method", "rule", "safety", "snippet"],
+  ];
+  for (const file of report.files) {
+    for (const call of file.calls) {
+      rows.push([
+        file.path,
+        String(call.line + 1),
+        String(call.column + 1),
+        getCallLabel(call),
+        call.rule ?? "",
+        call.safety,
+        call.snippet,
+      ]);
+    }
+  }
+  return rows.map((row) => row.map(field).join(",")).join("\r\n") + "\r\n";
+}
+
+// SARIF 2.1.0, as accepted by GitHub code scanning
+function formatSarif(report: Report, tool: ReportTool): string {
+  const results = report.files.flatMap((file) =>
+    file.calls.map((call) => ({
+      ruleId: call.rule ? DEBUGGING_RULE_ID : CONSOLE_RULE_ID,
+      level: "warning",
+      message: {
+        text: call.rule
+          ? `Unexpected debugging statement: ${call.method} (${call.rule})`
+          : `Unexpected console statement: console.${call.method}()`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: file.path.split("/").map(encodeURIComponent).join("/"),
+              uriBaseId: "%SRCROOT%",
+            },
+            region: {
+              startLine: call.line + 1,
+              startColumn: call.column + 1,
+              snippet: { text: call.snippet },
+            },
+          },
+        },
+      ],
+    })),
+  );
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: tool.name,
+            version: tool.version,
+            informationUri: tool.informationUri,
+            rules: [
+              {
+                id: CONSOLE_RULE_ID,
+                shortDescription: { text: "Console statement" },
+                fullDescription: {
+                  text: "Console statements left in source code, usually from debugging.",
+                },
+                defaultConfiguration: { level: "warning" },
+              },
+              {
+                id: DEBUGGING_RULE_ID,
+                shortDescription: { text: "Debugging statement" },
+                fullDescription: {
+                  text: "Statements matched by a consoleCleaner.rules entry, such as debugger or alert.",
+                },
+                defaultConfiguration: { level: "warning" },
+              },
+            ],
+          },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + "\n";
+}
+
+function formatMarkdown(report: Report): string {
+  const totals = getTotals(report);
+  // Table cells can't contain unescaped pipes (even in code) or line breaks
+  const cell = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+  const code = (text: string) =>
+    text.includes("`") ? `\`\` ${cell(text)} \`\`` : `\`${cell(text)}\``;
+
+  const lines = [
+    "## Console Cleaner Report",
+    "",
+    `Scope: ${report.scope}`,
+    "",
+    "| | Count |",
+    "| --- | ---: |",
+    `| Files with console statements | ${totals.files} |`,
+    `| Console statements | ${totals.statements} |`,
+  ];
+  if (totals.suppressed > 0) {
+    lines.push(`| Suppressed by comments | ${totals.suppressed} |`);
+  }
+  if (totals.disabled > 0) {
+    lines.push(`| Disabled | ${totals.disabled} |`);
+  }
+
+  if (report.files.length === 0) {
+    lines.push("", "No console statements found 🎉");
+  }
+
+  for (const file of report.files) {
+    lines.push(
+      "",
+      `### \`${file.path}\` (${file.calls.length})`,
+      "",
+      "| Line | Method | Snippet |",
+      "| ---: | --- | --- |",
+    );
+    for (const call of file.calls) {
+      const method = call.rule
+        ? `${code(call.method)} (${cell(call.rule)})`
+        : code(getCallLabel(call));
+      lines.push(
+        `| ${call.line + 1}:${call.column + 1} | ${method} | ${code(call.snippet)} |`,
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
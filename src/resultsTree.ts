@@ -0,0 +1,148 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { FileConsoleInfo } from "./sidebar";
+
+export type ResultNode =
+  // Only shown in multi-root workspaces
+  | { kind: "folder"; folder: vscode.WorkspaceFolder }
+  | { kind: "file"; file: FileConsoleInfo }
+  | {
+      kind: "occurrence";
+      file: FileConsoleInfo;
+      occurrence: FileConsoleInfo["occurrences"][number];
+    };
+
+// The scan results as a native tree: folders, files, then each statement.
+// Actions are contributed in package.json by `contextValue`.
+export class ResultsTreeProvider
+  implements vscode.TreeDataProvider<ResultNode>
+{
+  public static readonly viewId = "consoleCleanerResults";
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<
+    ResultNode | undefined
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly getFiles: () => FileConsoleInfo[]) {}
+
+  refresh() {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getChildren(element?: ResultNode): ResultNode[] {
+    // Files whose statements are all disabled stay listed to re-enable them
+    const files = this.getFiles()
+      .filter((file) => file.count > 0 || file.disabled > 0)
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const workspace = vscode.workspace.workspaceFolders ?? [];
+
+    if (!element) {
+      if (workspace.length <= 1) {
+        return files.map((file) => ({ kind: "file", file }));
+      }
+      return workspace
+        .filter((folder) => files.some((file) => isIn(file, folder)))
+        .map((folder) => ({ kind: "folder", folder }));
+    }
+
+    switch (element.kind) {
+      case "folder":
+        return files
+          .filter((file) => isIn(file, element.folder))
+          .map((file) => ({ kind: "file", file }));
+      case "file":
+        return element.file.occurrences.map((occurrence) => ({
+          kind: "occurrence",
+          file: element.file,
+          occurrence,
+        }));
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(element: ResultNode): vscode.TreeItem {
+    switch (element.kind) {
+      case "folder": {
+        const item = new vscode.TreeItem(
+          element.folder.name,
+          vscode.TreeItemCollapsibleState.Expanded,
+        );
+        item.resourceUri = element.folder.uri;
+        item.iconPath = vscode.ThemeIcon.Folder;
+        item.contextValue = "consoleCleaner.folder";
+        return item;
+      }
+      case "file": {
+        const { file } = element;
+        const item = new vscode.TreeItem(
+          vscode.Uri.file(file.path),
+          vscode.TreeItemCollapsibleState.Collapsed,
+        );
+        const relativeDir = path.dirname(
+          vscode.workspace.asRelativePath(file.path, false),
+        );
+        item.description =
+          relativeDir === "."
+            ? `${file.count}`
+            : `${file.count} · ${relativeDir}`;
+        item.tooltip =
+          `${file.count} console log${file.count !== 1 ? "s" : ""}` +
+          (file.disabled > 0 ? `, ${file.disabled} disabled` : "") +
+          (file.policy ? `\nPolicy: ${file.policy}` : "");
+        // Matched by the inline actions in package.json
+        item.contextValue =
+          "consoleCleaner.file" +
+          (file.count > 0 ? ".hasLogs" : "") +
+          (file.disabled > 0 ? ".hasDisabled" : "");
+        return item;
+      }
+      case "occurrence": {
+        const { file, occurrence } = element;
+        const item = new vscode.TreeItem(
+          `${occurrence.line + 1}: ${occurrence.rule ? occurrence.method : `console.${occurrence.method}`}`,
+          vscode.TreeItemCollapsibleState.None,
+        );
+        item.description = occurrence.snippet;
+        if (occurrence.safety === "unsafe") {
+          item.iconPath = new vscode.ThemeIcon("warning");
+          item.tooltip = `Needs manual review: ${occurrence.reason}`;
+        } else {
+          item.tooltip = occurrence.snippet;
+        }
+        const position = new vscode.Position(
+          occurrence.line,
+          occurrence.column,
+        );
+        item.command = {
+          command: "vscode.open",
+          title: "Open",
+          arguments: [
+            vscode.Uri.file(file.path),
+            { selection: new vscode.Range(position, position) },
+          ],
+        };
+        item.contextValue = "consoleCleaner.occurrence";
+        return item;
+      }
+    }
+  }
+
+  dispose() {
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+// The URI a node stands for, so that commands can treat nodes like the
+// URIs passed from the Explorer
+export function getNodeUri(node: ResultNode): vscode.Uri {
+  return node.kind === "folder"
+    ? node.folder.uri
+    : vscode.Uri.file(node.file.path);
+}
+
+function isIn(file: FileConsoleInfo, folder: vscode.WorkspaceFolder): boolean {
+  const owner = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file.path));
+  return owner?.uri.toString() === folder.uri.toString();
+}
@@ -0,0 +1,357 @@
+import * as ts from "typescript";
+
+// "safe": the statement can be deleted outright
+// "rewrite": the call is replaced, keeping side effects of its arguments
+// "unsafe": left in place for manual review
+export type RemovalSafety = "safe" | "rewrite" | "unsafe";
+
+// Where a matched call sits, which decides how it is removed
+export type CallContext =
+  // The whole expression statement
+  | "statement"
+  // The concise body of an arrow function
+  | "arrowBody"
+  // `{console.log(x)}` between JSX tags
+  | "jsxChild"
+  // An operand whose value is discarded, e.g. `cond && console.log(x)`
+  | "discarded"
+  // Anything else, e.g. `const result = console.log(x)`
+  | "used";
+
+export interface SafetyAnalysis {
+  safety: RemovalSafety;
+  context: CallContext;
+  // Arguments whose evaluation has side effects, in order
+  effects: ts.Expression[];
+  // Why the call is unsafe to remove
+  reason?: string;
+}
+
+// Formatting helpers commonly passed to console calls; calling them changes
+// nothing, so they are dropped along with the call
+const PURE_FUNCTIONS = new Set([
+  "String",
+  "Number",
+  "Boolean",
+  "BigInt",
+  "parseInt",
+  "parseFloat",
+  "isNaN",
+  "isFinite",
+  "encodeURI",
+  "encodeURIComponent",
+  "decodeURI",
+  "decodeURIComponent",
+  "JSON.stringify",
+  "Object.keys",
+  "Object.values",
+  "Object.entries",
+  "Array.isArray",
+  "Number.isNaN",
+  "Number.isInteger",
+  "Date.now",
+  "performance.now",
+]);
+
+const PURE_METHODS = new Set([
+  "toString",
+  "toFixed",
+  "toPrecision",
+  "toISOString",
+  "toLocaleString",
+  "toLocaleDateString",
+  "toLocaleTimeString",
+  "toJSON",
+  "toUpperCase",
+  "toLowerCase",
+  "trim",
+  "trimStart",
+  "trimEnd",
+  "padStart",
+  "padEnd",
+  "slice",
+  "substring",
+  "split",
+  "join",
+  "includes",
+  "indexOf",
+  "startsWith",
+  "endsWith",
+  "at",
+  "charAt",
+  "getTime",
+  "valueOf",
+]);
+
+const PURE_CONSTRUCTORS = new Set(["Date", "Error", "Map", "Set", "RegExp"]);
+
+// `call` is a console call, or a statement-level call matched by a rule.
+// Console methods return undefined, so a call whose value is discarded or
+// returned from an arrow function can be replaced by `void 0`.
+export function analyzeCall(
+  call: ts.CallExpression,
+  isConsoleRedefined: boolean,
+): SafetyAnalysis {
+  const context = getCallContext(call);
+  const effects: ts.Expression[] = [];
+
+  for (const argument of call.arguments) {
+    if (ts.isSpreadElement(argument)) {
+      if (hasSideEffects(argument.expression)) {
+        return {
+          safety: "unsafe",
+          context,
+          effects,
+          reason: "a spread argument has side effects",
+        };
+      }
+    } else if (hasSideEffects(argument)) {
+      effects.push(argument);
+    }
+  }
+
+  if (isConsoleRedefined) {
+    return {
+      safety: "unsafe",
+      context,
+      effects,
+      reason: "`console` is redefined in this file",
+    };
+  }
+  if (context === "used") {
+    return {
+      safety: "unsafe",
+      context,
+      effects,
+      reason: "its return value is used",
+    };
+  }
+  return {
+    safety:
+      context === "statement" && effects.length === 0 ? "safe" : "rewrite",
+    context,
+    effects,
+  };
+}
+
+function getCallContext(call: ts.CallExpression): CallContext {
+  const node = getOuterExpression(call);
+  const parent = node.parent;
+
+  if (ts.isExpressionStatement(parent)) {
+    return "statement";
+  }
+  if (ts.isArrowFunction(parent) && parent.body === node) {
+    return "arrowBody";
+  }
+  if (
+    ts.isJsxExpression(parent) &&
+    (ts.isJsxElement(parent.parent) || ts.isJsxFragment(parent.parent))
+  ) {
+    return "jsxChild";
+  }
+  return isDiscarded(node) ? "discarded" : "used";
+}
+
+// The call including any parentheses around it
+export function getOuterExpression(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node.parent)) {
+    node = node.parent;
+  }
+  return node;
+}
+
+function isDiscarded(node: ts.Expression): boolean {
+  const parent = node.parent;
+
+  if (ts.isExpressionStatement(parent) || ts.isVoidExpression(parent)) {
+    return true;
+  }
+  if (ts.isArrowFunction(parent)) {
+    // The arrow returns the same undefined
+    return parent.body === node;
+  }
+  if (ts.isForStatement(parent)) {
+    return parent.initializer === node || parent.incrementor === node;
+  }
+  if (ts.isConditionalExpression(parent)) {
+    return parent.condition !== node && isDiscarded(getOuterExpression(parent));
+  }
+  if (ts.isBinaryExpression(parent)) {
+    switch (parent.operatorToken.kind) {
+      case ts.SyntaxKind.CommaToken:
+        return (
+          parent.left === node || isDiscarded(getOuterExpression(parent))
+        );
+      case ts.SyntaxKind.AmpersandAmpersandToken:
+      case ts.SyntaxKind.BarBarToken:
+      case ts.SyntaxKind.QuestionQuestionToken:
+        return (
+          parent.right === node && isDiscarded(getOuterExpression(parent))
+        );
+    }
+  }
+  return false;
+}
+
+// Conservative: anything not known to be free of side effects has them.
+// Property reads are assumed not to run getters with side effects.
+export function hasSideEffects(node: ts.Expression): boolean {
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node) ||
+    ts.isTypeOfExpression(node) ||
+    ts.isVoidExpression(node) ||
+    ts.isSpreadElement(node)
+  ) {
+    return hasSideEffects(node.expression);
+  }
+
+  if (
+    ts.isIdentifier(node) ||
+    ts.isLiteralExpression(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isOmittedExpression(node)
+  ) {
+    return false;
+  }
+
+  switch (node.kind) {
+    case ts.SyntaxKind.TrueKeyword:
+    case ts.SyntaxKind.FalseKeyword:
+    case ts.SyntaxKind.NullKeyword:
+    case ts.SyntaxKind.ThisKeyword:
+    case ts.SyntaxKind.SuperKeyword:
+      return false;
+  }
+
+  if (ts.isPropertyAccessExpression(node)) {
+    return hasSideEffects(node.expression);
+  }
+  if (ts.isElementAccessExpression(node)) {
+    return (
+      hasSideEffects(node.expression) ||
+      hasSideEffects(node.argumentExpression)
+    );
+  }
+  if (ts.isTemplateExpression(node)) {
+    return node.templateSpans.some((span) => hasSideEffects(span.expression));
+  }
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.some(hasSideEffects);
+  }
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties.some((property) => {
+      if (
+        property.name &&
+        ts.isComputedPropertyName(property.name) &&
+        hasSideEffects(property.name.expression)
+      ) {
+        return true;
+      }
+      if (ts.isPropertyAssignment(property)) {
+        return hasSideEffects(property.initializer);
+      }
+      if (ts.isSpreadAssignment(property)) {
+        return hasSideEffects(property.expression);
+      }
+      return false;
+    });
+  }
+  if (ts.isPrefixUnaryExpression(node)) {
+    return (
+      node.operator === ts.SyntaxKind.PlusPlusToken ||
+      node.operator === ts.SyntaxKind.MinusMinusToken ||
+      hasSideEffects(node.operand)
+    );
+  }
+  if (ts.isBinaryExpression(node)) {
+    const operator = node.operatorToken.kind;
+    return (
+      (operator >= ts.SyntaxKind.FirstAssignment &&
+        operator <= ts.SyntaxKind.LastAssignment) ||
+      hasSideEffects(node.left) ||
+      hasSideEffects(node.right)
+    );
+  }
+  if (ts.isConditionalExpression(node)) {
+    return (
+      hasSideEffects(node.condition) ||
+      hasSideEffects(node.whenTrue) ||
+      hasSideEffects(node.whenFalse)
+    );
+  }
+  if (ts.isCallExpression(node)) {
+    return !isPureCall(node.expression) || node.arguments.some(hasSideEffects);
+  }
+  if (ts.isNewExpression(node)) {
+    return (
+      !ts.isIdentifier(node.expression) ||
+      !PURE_CONSTRUCTORS.has(node.expression.text) ||
+      (node.arguments ?? []).some(hasSideEffects)
+    );
+  }
+
+  // Assignments, updates, await, yield, delete, tagged templates, JSX, ...
+  return true;
+}
+
+function isPureCall(callee: ts.Expression): boolean {
+  const name = getDottedName(callee);
+  if (name !== undefined && PURE_FUNCTIONS.has(name)) {
+    return true;
+  }
+  if (
+    ts.isPropertyAccessExpression(callee) &&
+    !hasSideEffects(callee.expression)
+  ) {
+    return PURE_METHODS.has(callee.name.text) || !!name?.startsWith("Math.");
+  }
+  return false;
+}
+
+function getDottedName(node: ts.Expression): string | undefined {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    const object = getDottedName(node.expression);
+    return object && `${object}.${node.name.text}`;
+  }
+  return undefined;
+}
+
+// A local `console` binding means the calls may not be the global console
+export function isConsoleRedefined(sourceFile: ts.SourceFile): boolean {
+  let redefined = false;
+  const visit = (node: ts.Node) => {
+    if (redefined) {
+      return;
+    }
+    const name = (node as ts.NamedDeclaration).name;
+    if (
+      (ts.isVariableDeclaration(node) ||
+        ts.isParameter(node) ||
+        ts.isBindingElement(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isImportClause(node) ||
+        ts.isImportSpecifier(node) ||
+        ts.isNamespaceImport(node) ||
+        ts.isImportEqualsDeclaration(node)) &&
+      name &&
+      ts.isIdentifier(name) &&
+      name.text === "console"
+    ) {
+      redefined = true;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return redefined;
+}
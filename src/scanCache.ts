@@ -0,0 +1,123 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { CleanTargets, ConsoleCall, ScanResult } from "./engine";
+import { hashContent } from "./snapshots";
+
+interface CacheEntry {
+  mtimeMs: number;
+  size: number;
+  // Fingerprint of the settings the file was scanned with
+  signature: string;
+  calls: ConsoleCall[];
+  suppressed: number;
+  disabled: number;
+}
+
+const STORAGE_KEY = "consoleCleaner.scanCache";
+const CACHE_VERSION = 6;
+
+// Scan results keyed by path, reused while a file's mtime and size are
+// unchanged. Persisted in workspaceState so startup scans stay cheap.
+export class ScanCache implements vscode.Disposable {
+  private readonly _entries: Map<string, CacheEntry>;
+  private _saveTimeout: NodeJS.Timeout | undefined;
+
+  constructor(private readonly state: vscode.Memento) {
+    const stored = state.get<{
+      version: number;
+      entries: Record<string, CacheEntry>;
+    }>(STORAGE_KEY);
+
+    this._entries =
+      stored && stored.version === CACHE_VERSION
+        ? new Map(Object.entries(stored.entries))
+        : new Map();
+  }
+
+  static signature(targets: CleanTargets): string {
+    return hashContent(JSON.stringify(targets)).slice(0, 12);
+  }
+
+  get(
+    filePath: string,
+    stat: fs.Stats,
+    signature: string,
+  ): ScanResult | undefined {
+    const entry = this._entries.get(filePath);
+    if (
+      entry &&
+      entry.mtimeMs === stat.mtimeMs &&
+      entry.size === stat.size &&
+      entry.signature === signature
+    ) {
+      return {
+        calls: entry.calls,
+        suppressed: entry.suppressed,
+        disabled: entry.disabled,
+      };
+    }
+    return undefined;
+  }
+
+  set(
+    filePath: string,
+    stat: fs.Stats,
+    signature: string,
+    result: ScanResult,
+  ) {
+    this._entries.set(filePath, {
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      signature,
+      calls: result.calls,
+      suppressed: result.suppressed,
+      disabled: result.disabled,
+    });
+    this.scheduleSave();
+  }
+
+  delete(filePath: string) {
+    if (this._entries.delete(filePath)) {
+      this.scheduleSave();
+    }
+  }
+
+  // Drop entries for files that no longer exist under `keep`
+  prune(keep: (filePath: string) => boolean) {
+    for (const filePath of Array.from(this._entries.keys())) {
+      if (!keep(filePath)) {
+        this._entries.delete(filePath);
+      }
+    }
+    this.scheduleSave();
+  }
+
+  clear() {
+    this._entries.clear();
+    this.scheduleSave();
+  }
+
+  private scheduleSave() {
+    if (this._saveTimeout) {
+      clearTimeout(this._saveTimeout);
+    }
+    this._saveTimeout = setTimeout(() => this.save(), 5000);
+  }
+
+  async save(): Promise<void> {
+    if (this._saveTimeout) {
+      clearTimeout(this._saveTimeout);
+      this._saveTimeout = undefined;
+    }
+    await this.state.update(STORAGE_KEY, {
+      version: CACHE_VERSION,
+      entries: Object.fromEntries(this._entries),
+    });
+  }
+
+  dispose() {
+    if (this._saveTimeout) {
+      this.save();
+    }
+  }
+}
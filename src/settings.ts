@@ -0,0 +1,172 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { CleanRule, LoggerOptions } from "./engine";
+
+// Defaults of the `consoleCleaner.*` settings, shared by the extension and
+// the CLI. Keep in sync with package.json.
+export const DEFAULT_IGNORE_FOLDERS = [
+  "node_modules",
+  "build",
+  "dist",
+  ".next",
+  "out",
+  "coverage",
+  ".git",
+  ".vscode",
+  "vendor",
+  "tmp",
+  "temp",
+];
+
+export const DEFAULT_FILE_EXTENSIONS = [
+  ".js",
+  ".jsx",
+  ".ts",
+  ".tsx",
+  ".mjs",
+  ".cjs",
+];
+
+export const DEFAULT_CONSOLE_METHODS = [
+  "log",
+  "warn",
+  "error",
+  "info",
+  "debug",
+  "trace",
+  "table",
+  "time",
+  "timeEnd",
+  "assert",
+  "count",
+  "dir",
+  "dirxml",
+  "group",
+  "groupCollapsed",
+  "groupEnd",
+  "clear",
+];
+
+// "remove" deletes console statements; "logger" rewrites mapped methods to
+// the configured logger
+export type CleanMode = "remove" | "logger";
+
+export const DEFAULT_LOGGER_MAPPINGS: Record<string, string> = {
+  log: "logger.debug",
+  debug: "logger.debug",
+  info: "logger.info",
+  warn: "logger.warn",
+  error: "logger.error",
+};
+
+// `consoleCleaner.loggerImport`; no import is added while `from` is empty
+export interface LoggerImportSetting {
+  name?: string;
+  from?: string;
+  default?: boolean;
+}
+
+// The settings that decide what is scanned and removed outside the editor
+export interface CleanerSettings {
+  ignoreFolders: string[];
+  fileExtensions: string[];
+  consoleMethods: string[];
+  include: string[];
+  exclude: string[];
+  respectGitignore: boolean;
+  respectEditorExcludes: boolean;
+  baseBranch: string;
+  changedLinesOnly: boolean;
+  cleanMode: CleanMode;
+  loggerMappings: Record<string, string>;
+  loggerImport: LoggerImportSetting;
+  rules: CleanRule[];
+  // Enabled `files.exclude` and `search.exclude` globs
+  editorExcludes: string[];
+}
+
+// Reads `.vscode/settings.json` under `root` so the CLI applies the same
+// rules as the editor. Missing or invalid files fall back to the defaults.
+export async function loadSettings(root: string): Promise<CleanerSettings> {
+  let values: Record<string, unknown> = {};
+  try {
+    const settingsPath = path.join(root, ".vscode", "settings.json");
+    // settings.json allows comments and trailing commas
+    const parsed = ts.parseConfigFileTextToJson(
+      settingsPath,
+      await fs.promises.readFile(settingsPath, "utf8"),
+    );
+    if (!parsed.error && parsed.config && typeof parsed.config === "object") {
+      values = parsed.config;
+    }
+  } catch (error) {
+    // No workspace settings
+  }
+
+  const get = <T>(key: string, defaultValue: T): T => {
+    const value = values[`consoleCleaner.${key}`];
+    return value !== undefined && typeof value === typeof defaultValue
+      ? (value as T)
+      : defaultValue;
+  };
+
+  const editorExcludes: string[] = [];
+  for (const section of ["files", "search"]) {
+    const excludes = values[`${section}.exclude`];
+    if (!excludes || typeof excludes !== "object") {
+      continue;
+    }
+    for (const [pattern, enabled] of Object.entries(excludes)) {
+      if (enabled === true && !editorExcludes.includes(pattern)) {
+        editorExcludes.push(pattern);
+      }
+    }
+  }
+
+  return {
+    ignoreFolders: get("ignoreFolders", DEFAULT_IGNORE_FOLDERS),
+    fileExtensions: get("fileExtensions", DEFAULT_FILE_EXTENSIONS),
+    consoleMethods: get("consoleMethods", DEFAULT_CONSOLE_METHODS),
+    include: get<string[]>("include", []),
+    exclude: get<string[]>("exclude", []),
+    respectGitignore: get("respectGitignore", true),
+    respectEditorExcludes: get("respectEditorExcludes", true),
+    baseBranch: get("baseBranch", "main"),
+    changedLinesOnly: get("changedLinesOnly", true),
+    cleanMode: get<CleanMode>("cleanMode", "remove"),
+    loggerMappings: get("loggerMappings", DEFAULT_LOGGER_MAPPINGS),
+    loggerImport: get<LoggerImportSetting>("loggerImport", {}),
+    rules: get<CleanRule[]>("rules", []),
+    editorExcludes,
+  };
+}
+
+// Logger options for one file. Relative module paths in the settings are
+// relative to `root` and rewritten relative to the file.
+export function getLoggerOptions(
+  settings: Pick<CleanerSettings, "loggerMappings" | "loggerImport">,
+  root: string,
+  filePath: string,
+): LoggerOptions {
+  const { name, from, default: isDefault } = settings.loggerImport;
+  if (!name || !from) {
+    return { mappings: settings.loggerMappings };
+  }
+
+  let specifier = from;
+  if (from.startsWith("./") || from.startsWith("../")) {
+    specifier = path
+      .relative(path.dirname(filePath), path.resolve(root, from))
+      .split(path.sep)
+      .join("/");
+    if (!specifier.startsWith(".")) {
+      specifier = `./${specifier}`;
+    }
+  }
+
+  return {
+    mappings: settings.loggerMappings,
+    import: { name, from: specifier, isDefault: !!isDefault },
+  };
+}
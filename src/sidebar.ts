@@ -1,24 +1,105 @@
 import * as vscode from "vscode";
-import * as path from "path";
+import * as crypto from "crypto";
+import { GIT_SCOPES, GitScopeOptions, describeScope } from "./git";
+import { CleanMode } from "./settings";
+
+interface ConsoleOccurrence {
+  line: number;
+  column: number;
+  method: string;
+  snippet: string;
+  // Custom rule that matched; undefined for console calls
+  rule?: string;
+  // "unsafe" statements are left in place when cleaning
+  safety: "safe" | "rewrite" | "unsafe";
+  reason?: string;
+}
 
-interface FileConsoleInfo {
+export interface FileConsoleInfo {
   path: string;
   count: number;
+  // Statements commented out by "Disable Console Logs"
+  disabled: number;
+  occurrences: ConsoleOccurrence[];
+  // The .consolecleanerrc overrides that applied; undefined when only the
+  // settings did
+  policy?: string;
+  // Last-modified time in milliseconds; 0 when unknown
+  modified: number;
+}
+
+type FileSort = "count" | "path" | "modified";
+
+// How the file list is shown, kept per workspace
+interface ListView {
+  sort: FileSort;
+  groupByFolder: boolean;
+}
+
+const LIST_VIEW_KEY = "consoleCleaner.sidebarView";
+
+// Everything the page shows besides the file list
+interface ViewState {
+  isScanning: boolean;
+  isCleaning: boolean;
+  scope: { value: string; options: { value: string; label: string }[] };
+  cleanMode: CleanMode;
+  listView: ListView;
+  // Calls skipped because of suppression comments
+  suppressed: number;
+  workspaceFolders: { name: string; uri: string; fsPath: string }[];
 }
 
+// A file as sent to the page
+interface FileRow extends FileConsoleInfo {
+  // Relative to its workspace folder, with forward slashes
+  relativePath: string;
+  // URI of the workspace folder; empty for files outside every folder
+  folder: string;
+}
+
+// The state keys and files that changed since the last update, or all of
+// them when `full` is set
+interface UpdateMessage {
+  command: "update";
+  full: boolean;
+  state: Partial<ViewState>;
+  files: FileRow[];
+  // Paths of files that are no longer listed
+  removed: string[];
+}
+
+// The page is loaded once and then kept up to date with UpdateMessages. It
+// builds the file list itself and only renders the rows in view.
 export class SidebarProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "consoleCleanerView";
 
   private _view?: vscode.WebviewView;
   private _isScanning = false;
   private _isCleaning = false;
+  private _listView: ListView;
+  // What the page was last sent, as JSON per state key and per file path
+  private readonly _sentState = new Map<string, string>();
+  private readonly _sentFiles = new Map<string, string>();
 
   constructor(
     private readonly context: vscode.ExtensionContext,
     private readonly getFiles: () => FileConsoleInfo[],
-    private readonly openFile: (path: string) => void,
+    private readonly getSuppressedCount: () => number,
+    private readonly getScope: () => GitScopeOptions,
+    private readonly getCleanMode: () => CleanMode,
+    private readonly openFile: (
+      path: string,
+      line?: number,
+      column?: number,
+    ) => void,
     private readonly cleanFile: (path: string) => void,
-  ) {}
+  ) {
+    this._listView = context.workspaceState.get<ListView>(LIST_VIEW_KEY, {
+      sort: "count",
+      groupByFolder: false,
+    });
+  }
 
   resolveWebviewView(view: vscode.WebviewView) {
     this._view = view;
@@ -26,11 +107,22 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       enableScripts: true,
       localResourceRoots: [this.context.extensionUri],
     };
-    this.render();
+    view.webview.html = this.getHtmlContent(view.webview);
+
+    // Updates are not sent while hidden
+    view.onDidChangeVisibility(() => {
+      if (view.visible) {
+        this.refresh();
+      }
+    });
 
     view.webview.onDidReceiveMessage(async (msg) => {
       try {
         switch (msg.command) {
+          case "ready":
+            // The page was loaded or reloaded and has nothing to show yet
+            this.postUpdate(true);
+            break;
           case "clean":
             await vscode.commands.executeCommand("consoleCleaner.cleanProject");
             break;
@@ -40,13 +132,76 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
               msg.path,
             );
             break;
+          case "cleanFiles":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.cleanFiles",
+              msg.paths,
+            );
+            break;
+          case "setSort":
+            await this.setListView({ sort: msg.sort });
+            break;
+          case "setGrouping":
+            await this.setListView({ groupByFolder: !!msg.groupByFolder });
+            break;
           case "openFile":
             // Pass the path directly without any modification
-            this.openFile(msg.path);
+            this.openFile(msg.path, msg.line, msg.column);
             break;
           case "rescan":
             await vscode.commands.executeCommand("consoleCleaner.rescan");
             break;
+          case "exportReport":
+            await vscode.commands.executeCommand("consoleCleaner.exportReport");
+            break;
+          case "showDashboard":
+            await vscode.commands.executeCommand("consoleCleaner.showDashboard");
+            break;
+          case "disableAll":
+            await vscode.commands.executeCommand("consoleCleaner.disableAll");
+            break;
+          case "enableAll":
+            await vscode.commands.executeCommand("consoleCleaner.enableAll");
+            break;
+          case "disableFile":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.disableFile",
+              msg.path,
+            );
+            break;
+          case "enableFile":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.enableFile",
+              msg.path,
+            );
+            break;
+          case "cleanFolder":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.cleanFolder",
+              vscode.Uri.parse(msg.uri),
+            );
+            break;
+          case "rescanFolder":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.rescanFolder",
+              vscode.Uri.parse(msg.uri),
+            );
+            break;
+          case "setScope":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.selectScope",
+              msg.scope,
+            );
+            // Reset the picker if the selection was cancelled
+            this._sentState.delete("scope");
+            this.refresh();
+            break;
+          case "setCleanMode":
+            await vscode.commands.executeCommand(
+              "consoleCleaner.selectCleanMode",
+              msg.mode,
+            );
+            break;
         }
       } catch (error) {
         vscode.window.showErrorMessage(
@@ -67,46 +222,129 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
   }
 
   refresh() {
-    this.render();
+    this.postUpdate(false);
+  }
+
+  private async setListView(changes: Partial<ListView>) {
+    this._listView = { ...this._listView, ...changes };
+    await this.context.workspaceState.update(LIST_VIEW_KEY, this._listView);
+    this.refresh();
   }
 
-  private render() {
-    if (!this._view) {
+  // Send what changed since the last update. A hidden page catches up when
+  // shown again.
+  private postUpdate(full: boolean) {
+    if (!this._view || !this._view.visible) {
       return;
     }
 
-    const files = this.getFiles();
-    const workspace = vscode.workspace.workspaceFolders
-      ? [...vscode.workspace.workspaceFolders]
-      : undefined;
+    const scope = this.getScope();
+    const state: ViewState = {
+      isScanning: this._isScanning,
+      isCleaning: this._isCleaning,
+      scope: {
+        value: scope.scope,
+        options: GIT_SCOPES.map((value) => ({
+          value,
+          label: describeScope(value, scope.baseBranch),
+        })),
+      },
+      cleanMode: this.getCleanMode(),
+      listView: this._listView,
+      suppressed: this.getSuppressedCount(),
+      workspaceFolders: (vscode.workspace.workspaceFolders ?? []).map(
+        (folder) => ({
+          name: folder.name,
+          uri: folder.uri.toString(),
+          fsPath: folder.uri.fsPath,
+        }),
+      ),
+    };
+
+    if (full) {
+      this._sentState.clear();
+      this._sentFiles.clear();
+    }
+
+    const changes: Partial<ViewState> = {};
+    for (const key of Object.keys(state) as (keyof ViewState)[]) {
+      const json = JSON.stringify(state[key]);
+      if (this._sentState.get(key) !== json) {
+        Object.assign(changes, { [key]: state[key] });
+        this._sentState.set(key, json);
+      }
+    }
+
+    const files: FileRow[] = [];
+    const listed = new Set<string>();
+    for (const fileInfo of this.getFiles()) {
+      listed.add(fileInfo.path);
+      const row = this.toFileRow(fileInfo);
+      const json = JSON.stringify(row);
+      if (this._sentFiles.get(fileInfo.path) !== json) {
+        files.push(row);
+        this._sentFiles.set(fileInfo.path, json);
+      }
+    }
+    const removed = Array.from(this._sentFiles.keys()).filter(
+      (filePath) => !listed.has(filePath),
+    );
+    removed.forEach((filePath) => this._sentFiles.delete(filePath));
+
+    if (
+      !full &&
+      Object.keys(changes).length === 0 &&
+      files.length === 0 &&
+      removed.length === 0
+    ) {
+      return;
+    }
+
+    const message: UpdateMessage = {
+      command: "update",
+      full,
+      state: changes,
+      files,
+      removed,
+    };
+    this._view.webview.postMessage(message);
+  }
 
-    this._view.webview.html = this.getHtmlContent(files, workspace);
+  private toFileRow(fileInfo: FileConsoleInfo): FileRow {
+    const uri = vscode.Uri.file(fileInfo.path);
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return {
+      ...fileInfo,
+      relativePath: vscode.workspace
+        .asRelativePath(uri, false)
+        .replace(/\\/g, "/"),
+      folder: folder ? folder.uri.toString() : "",
+    };
   }
 
-  private getHtmlContent(
-    files: FileConsoleInfo[],
-    workspace: vscode.WorkspaceFolder[] | undefined,
-  ): string {
-    const fileListHtml = this.generateFileList(files);
-    const stats = this.generateStats(files);
-    const isAnyOperation = this._isScanning || this._isCleaning;
-    const cleanButtonDisabled = isAnyOperation || files.length === 0;
-    const rescanButtonDisabled = isAnyOperation;
+  private getHtmlContent(webview: vscode.Webview): string {
+    const nonce = crypto.randomBytes(16).toString("hex");
 
     return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
+  <meta
+    http-equiv="Content-Security-Policy"
+    content="default-src 'none'; img-src ${webview.cspSource}; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <h2>JavaScript Console Cleaner</h2>
-  <style>
+  <style nonce="${nonce}">
     * {
       box-sizing: border-box;
       margin: 0;
       padding: 0;
     }
 
+    [hidden] {
+      display: none !important;
+    }
+
     body {
       font-family: var(--vscode-font-family);
       font-size: var(--vscode-font-size);
@@ -152,6 +390,25 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       color: var(--vscode-foreground);
     }
 
+    .scope-select {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+
+    .scope-select select {
+      flex: 1;
+      padding: 4px;
+      font-size: 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-dropdown-foreground);
+      background-color: var(--vscode-dropdown-background);
+      border: 1px solid var(--vscode-dropdown-border);
+      border-radius: 2px;
+      outline: none;
+    }
+
     .button-group {
       display: flex;
       flex-direction: column;
@@ -233,16 +490,45 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       line-height: 1.5;
     }
 
+    /* Only the rows in view are rendered, so every kind of row has a fixed
+       height; ROW_HEIGHTS in the script must match */
     .file-list {
-      list-style: none;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .row {
+      overflow: hidden;
+    }
+
+    .row-folder {
+      height: 32px;
+    }
+
+    .row-empty {
+      height: 24px;
+    }
+
+    .row-dir {
+      height: 28px;
+      padding-bottom: 4px;
+    }
+
+    .row-file {
+      height: 50px;
+      padding-bottom: 4px;
+    }
+
+    .row-occurrence {
+      height: 22px;
     }
 
     .file-item {
       display: flex;
       align-items: center;
       justify-content: space-between;
-      padding: 8px;
-      margin-bottom: 4px;
+      height: 100%;
+      padding: 0 8px;
       background-color: var(--vscode-editor-background);
       border-radius: 4px;
       transition: background-color 0.15s;
@@ -267,10 +553,25 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       font-size: 12px;
       color: var(--vscode-textLink-foreground);
       overflow: hidden;
+    }
+
+    .file-path strong,
+    .file-detail {
+      display: block;
+      overflow: hidden;
       text-overflow: ellipsis;
       white-space: nowrap;
     }
 
+    .file-detail {
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .file-policy {
+      font-style: italic;
+    }
+
     .file-info:hover .file-path {
       text-decoration: underline;
     }
@@ -294,6 +595,175 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
       flex-shrink: 0;
     }
 
+    .expand-toggle {
+      width: 16px;
+      flex-shrink: 0;
+      font-size: 10px;
+      color: var(--vscode-icon-foreground);
+      cursor: pointer;
+      user-select: none;
+      transition: transform 0.15s;
+    }
+
+    .file-item.expanded .expand-toggle,
+    .dir-item:not(.collapsed) .expand-toggle {
+      transform: rotate(90deg);
+    }
+
+    .occurrence-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      height: 100%;
+      margin-left: 24px;
+      padding: 0 6px;
+      border-radius: 3px;
+      font-size: 11px;
+      cursor: pointer;
+      overflow: hidden;
+    }
+
+    .occurrence-item:hover {
+      background-color: var(--vscode-list-hoverBackground);
+    }
+
+    .occurrence-line {
+      flex-shrink: 0;
+      color: var(--vscode-descriptionForeground);
+      font-variant-numeric: tabular-nums;
+    }
+
+    .occurrence-method {
+      flex-shrink: 0;
+      font-weight: 600;
+      color: var(--vscode-symbolIcon-methodForeground, var(--vscode-foreground));
+    }
+
+    .occurrence-unsafe {
+      flex-shrink: 0;
+      cursor: help;
+    }
+
+    .occurrence-snippet {
+      flex: 1;
+      font-family: var(--vscode-editor-font-family);
+      color: var(--vscode-foreground);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .list-toolbar {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      margin-bottom: 8px;
+    }
+
+    .list-toolbar input[type="search"] {
+      width: 100%;
+      padding: 4px 6px;
+      font-size: 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-input-foreground);
+      background-color: var(--vscode-input-background);
+      border: 1px solid var(--vscode-input-border, transparent);
+      border-radius: 2px;
+      outline: none;
+    }
+
+    .list-toolbar input[type="search"]:focus {
+      border-color: var(--vscode-focusBorder);
+    }
+
+    .list-options {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .list-options select {
+      flex: 1;
+      padding: 4px;
+      font-size: 12px;
+      font-family: var(--vscode-font-family);
+      color: var(--vscode-dropdown-foreground);
+      background-color: var(--vscode-dropdown-background);
+      border: 1px solid var(--vscode-dropdown-border);
+      border-radius: 2px;
+      outline: none;
+    }
+
+    .selection-bar {
+      display: none;
+      align-items: center;
+      gap: 6px;
+      margin-bottom: 8px;
+    }
+
+    .selection-bar.visible {
+      display: flex;
+    }
+
+    .selection-bar span {
+      flex: 1;
+    }
+
+    .selection-bar button {
+      width: auto;
+      padding: 4px 8px;
+      font-size: 12px;
+    }
+
+    .file-select {
+      flex-shrink: 0;
+      cursor: pointer;
+    }
+
+    .dir-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      height: 100%;
+      padding: 0 8px;
+      font-size: 12px;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+
+    .dir-item:hover {
+      background-color: var(--vscode-list-hoverBackground);
+    }
+
+    .dir-name {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .folder-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      height: 100%;
+    }
+
+    .folder-name {
+      flex: 1;
+      font-size: 12px;
+      font-weight: 600;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .folder-empty {
+      padding: 4px 8px;
+      font-size: 11px;
+      color: var(--vscode-descriptionForeground);
+    }
+
     .file-actions {
       display: flex;
       gap: 4px;
@@ -358,206 +828,941 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
   </style>
 </head>
 <body>
+  <h2>JavaScript Console Cleaner</h2>
+
+  <div id="stats" class="stats"></div>
+
+  <div class="scope-select">
+    <label class="stats-label" for="scopeSelect">Scope</label>
+    <select
+      id="scopeSelect"
+      title="Only scan and clean console logs in these changes">
+    </select>
+  </div>
 
-  ${stats}
+  <div class="scope-select">
+    <label class="stats-label" for="modeSelect">Mode</label>
+    <select
+      id="modeSelect"
+      title="What cleaning does with console statements">
+      <option value="remove">Remove console statements</option>
+      <option value="logger">Replace with logger</option>
+    </select>
+  </div>
 
   <div class="button-group">
-    <button 
-      id="cleanBtn" 
-      ${cleanButtonDisabled ? "disabled" : ""}
-      title="${files.length === 0 ? "No console logs to clean" : isAnyOperation ? "Operation in progress..." : "Clean all console logs from project"}">
-      ${this._isCleaning ? '<span class="spinner"></span>Cleaning...' : "🧹 Clean All Console Logs"}
+    <button id="cleanBtn">🧹 Clean All Console Logs</button>
+    <button id="rescanBtn" class="secondary">🔄 Rescan Project</button>
+    <button
+      id="disableAllBtn"
+      class="secondary"
+      title="Comment out all console logs so they can be re-enabled later">
+      🔇 Disable All Console Logs
+    </button>
+    <button
+      id="enableAllBtn"
+      class="secondary"
+      title="Restore all console logs commented out by Disable"
+      hidden>
+    </button>
+    <button
+      id="exportBtn"
+      class="secondary"
+      title="Save the scan results as JSON, CSV, SARIF or Markdown">
+      📄 Export Report
     </button>
-    <button 
-      id="rescanBtn" 
+    <button
+      id="dashboardBtn"
       class="secondary"
-      ${rescanButtonDisabled ? "disabled" : ""}
-      title="${isAnyOperation ? "Operation in progress..." : "Rescan project for console logs"}">
-      ${this._isScanning ? '<span class="spinner"></span>Scanning...' : "🔄 Rescan Project"}
+      title="Counts per method, folder and file type, and their trend across scans">
+      📊 Statistics
     </button>
   </div>
 
   <hr/>
 
-  ${fileListHtml}
+  <div id="emptyState" class="empty-state" hidden>
+    <div class="empty-state-icon">🎉</div>
+    <div class="empty-state-text">
+      No console logs found in your project!<br>
+      Your code is clean.
+    </div>
+  </div>
+
+  <div id="fileSection" hidden>
+    <div class="section-header">
+      Affected Files (<span id="shownCount"></span>)
+    </div>
+    <div class="list-toolbar">
+      <input
+        id="filterInput"
+        type="search"
+        placeholder="Filter by path or method"
+        title="Show files whose path or console methods contain this text">
+      <div class="list-options">
+        <input
+          id="selectAll"
+          type="checkbox"
+          title="Select all shown files">
+        <select id="sortSelect" title="Sort files">
+          <option value="count">Most console logs first</option>
+          <option value="path">Path</option>
+          <option value="modified">Recently modified first</option>
+        </select>
+        <button id="groupBtn" class="icon-button"></button>
+      </div>
+    </div>
+    <div id="selectionBar" class="selection-bar">
+      <span id="selectionCount" class="stats-label"></span>
+      <button id="cleanSelectedBtn">🧹 Clean Selected</button>
+      <button id="clearSelectionBtn" class="secondary">Clear</button>
+    </div>
+    <div id="fileList" class="file-list">
+      <div id="fileRows"></div>
+    </div>
+  </div>
+
+  <div class="developer-credit">
+    Developed by <strong>Harsh Jolapara</strong>
+  </div>
 
-  <script>
+  <script nonce="${nonce}">
     (function() {
       const vscode = acquireVsCodeApi();
 
-      // Helper function to encode path for safe transmission
-      // Using encodeURIComponent instead of btoa for better compatibility
-      function encodePath(path) {
-        return encodeURIComponent(path);
+      // Must match the .row-* heights in the stylesheet
+      const ROW_HEIGHTS = {
+        folder: 32,
+        empty: 24,
+        dir: 28,
+        file: 50,
+        occurrence: 22,
+      };
+      // Rows rendered beyond each edge of the viewport
+      const OVERSCAN = 10;
+      const INDENT = 12;
+
+      // Expanded files, collapsed folders, the selection, the filter and
+      // the scroll position survive reloads of the page
+      const saved = vscode.getState() || {};
+      const expanded = new Set(saved.expanded || []);
+      const collapsed = new Set(saved.collapsed || []);
+      const selected = new Set(saved.selected || []);
+      let filter = saved.filter || "";
+      let scrollY = saved.scrollY || 0;
+
+      // Set by the first full update
+      let view;
+      const files = new Map();
+      let shownFiles = [];
+      let rows = [];
+      // Top of each row, followed by the height of the whole list
+      let offsets = [0];
+      let renderedRange = "";
+      let isRenderPending = false;
+      let isScrollRestored = false;
+
+      function $(id) {
+        return document.getElementById(id);
       }
 
-      // Helper function to decode path
-      function decodePath(encodedPath) {
-        return decodeURIComponent(encodedPath);
+      function saveState() {
+        vscode.setState({
+          expanded: Array.from(expanded),
+          collapsed: Array.from(collapsed),
+          selected: Array.from(selected),
+          filter: filter,
+          scrollY: scrollY,
+        });
       }
 
-      // Clean all button
-      const cleanBtn = document.getElementById("cleanBtn");
-      if (cleanBtn) {
-        cleanBtn.addEventListener("click", function() {
-          if (!this.disabled) {
-            vscode.postMessage({ command: "clean" });
+      function escapeHtml(text) {
+        const map = {
+          "&": "&amp;",
+          "<": "&lt;",
+          ">": "&gt;",
+          '"': "&quot;",
+          "'": "&#039;",
+        };
+        return String(text).replace(/[&<>"']/g, function(m) {
+          return map[m];
+        });
+      }
+
+      function plural(count, word) {
+        return count + " " + word + (count !== 1 ? "s" : "");
+      }
+
+      function isOperating() {
+        return view.isScanning || view.isCleaning;
+      }
+
+      function operationTitle(title) {
+        return isOperating() ? "Operation in progress..." : title;
+      }
+
+      window.addEventListener("message", function(event) {
+        const msg = event.data;
+        if (msg.command !== "update" || (!view && !msg.full)) {
+          return;
+        }
+
+        if (msg.full) {
+          view = {};
+          files.clear();
+        }
+        Object.assign(view, msg.state);
+        msg.removed.forEach(function(path) {
+          files.delete(path);
+        });
+        msg.files.forEach(function(file) {
+          // Matched by the filter box
+          const methods = new Set(
+            file.occurrences.map(function(occurrence) {
+              return occurrence.rule
+                ? occurrence.method
+                : "console." + occurrence.method;
+            }),
+          );
+          file.filterText = [file.relativePath]
+            .concat(Array.from(methods))
+            .join(" ")
+            .toLowerCase();
+          files.set(file.path, file);
+        });
+        // Cleaned files drop out of the selection
+        selected.forEach(function(path) {
+          if (!files.has(path)) {
+            selected.delete(path);
           }
         });
+
+        update(msg.state);
+      });
+
+      function update(changes) {
+        if ("scope" in changes) {
+          $("scopeSelect").innerHTML = view.scope.options
+            .map(function(option) {
+              return (
+                '<option value="' + escapeHtml(option.value) + '">' +
+                escapeHtml(option.label) +
+                "</option>"
+              );
+            })
+            .join("");
+          $("scopeSelect").value = view.scope.value;
+        }
+        if ("cleanMode" in changes) {
+          $("modeSelect").value = view.cleanMode;
+        }
+        if ("listView" in changes) {
+          const isGrouped = view.listView.groupByFolder;
+          $("sortSelect").value = view.listView.sort;
+          $("groupBtn").textContent = isGrouped ? "☰" : "🗂️";
+          $("groupBtn").title = isGrouped ? "Show as list" : "Group by folder";
+        }
+
+        updateControls();
+        updateStats();
+        buildRows();
+
+        // Back to where the page was scrolled before it was reloaded
+        if (!isScrollRestored) {
+          isScrollRestored = true;
+          window.scrollTo(0, scrollY);
+        }
+        scheduleRender();
       }
 
-      // Rescan button
-      const rescanBtn = document.getElementById("rescanBtn");
-      if (rescanBtn) {
-        rescanBtn.addEventListener("click", function() {
-          if (!this.disabled) {
-            vscode.postMessage({ command: "rescan" });
+      function updateControls() {
+        let totalLogs = 0;
+        let totalDisabled = 0;
+        files.forEach(function(file) {
+          totalLogs += file.count;
+          totalDisabled += file.disabled;
+        });
+        const busy = isOperating();
+
+        $("scopeSelect").disabled = busy;
+        $("modeSelect").disabled = busy;
+
+        const cleanBtn = $("cleanBtn");
+        cleanBtn.disabled = busy || totalLogs === 0;
+        cleanBtn.title =
+          totalLogs === 0
+            ? "No console logs to clean"
+            : operationTitle(
+                view.cleanMode === "logger"
+                  ? "Replace all console logs in the project with logger calls"
+                  : "Clean all console logs from project",
+              );
+        cleanBtn.innerHTML = view.isCleaning
+          ? '<span class="spinner"></span>Cleaning...'
+          : view.cleanMode === "logger"
+            ? "🪵 Replace All with Logger"
+            : "🧹 Clean All Console Logs";
+
+        const rescanBtn = $("rescanBtn");
+        rescanBtn.disabled = busy;
+        rescanBtn.title = operationTitle("Rescan project for console logs");
+        rescanBtn.innerHTML = view.isScanning
+          ? '<span class="spinner"></span>Scanning...'
+          : "🔄 Rescan Project";
+
+        $("disableAllBtn").disabled = busy || totalLogs === 0;
+        const enableAllBtn = $("enableAllBtn");
+        enableAllBtn.hidden = totalDisabled === 0;
+        enableAllBtn.disabled = busy;
+        enableAllBtn.textContent =
+          "🔊 Re-enable " + plural(totalDisabled, "Disabled Log");
+        $("exportBtn").disabled = busy;
+
+        $("selectAll").disabled = busy;
+        const cleanSelectedBtn = $("cleanSelectedBtn");
+        cleanSelectedBtn.disabled = busy;
+        cleanSelectedBtn.title = operationTitle("Clean the selected files");
+
+        $("emptyState").hidden = files.size > 0 || view.isScanning;
+        $("fileSection").hidden = files.size === 0;
+      }
+
+      function statsItem(label, value, title) {
+        return (
+          '<div class="stats-item">' +
+          '<span class="stats-label"' +
+          (title ? ' title="' + escapeHtml(title) + '"' : "") +
+          ">" + escapeHtml(label) + "</span>" +
+          '<span class="stats-value">' + value + "</span>" +
+          "</div>"
+        );
+      }
+
+      function updateStats() {
+        const spinner = '<span class="spinner"></span>';
+        let html;
+        if (view.isScanning) {
+          html =
+            statsItem("Status", spinner + "Scanning...") +
+            statsItem("Files found so far", files.size);
+        } else if (view.isCleaning) {
+          html = statsItem("Status", spinner + "Cleaning...");
+        } else {
+          let withLogs = 0;
+          let totalLogs = 0;
+          let unsafe = 0;
+          let disabled = 0;
+          const ruleCounts = new Map();
+          files.forEach(function(file) {
+            withLogs += file.count > 0 ? 1 : 0;
+            totalLogs += file.count;
+            disabled += file.disabled;
+            file.occurrences.forEach(function(occurrence) {
+              if (occurrence.safety === "unsafe") {
+                unsafe++;
+              }
+              if (occurrence.rule !== undefined) {
+                ruleCounts.set(
+                  occurrence.rule,
+                  (ruleCounts.get(occurrence.rule) || 0) + 1,
+                );
+              }
+            });
+          });
+
+          html =
+            statsItem("Files with console logs", withLogs) +
+            statsItem("Total console logs", totalLogs);
+          Array.from(ruleCounts.keys())
+            .sort(compareText)
+            .forEach(function(rule) {
+              html += statsItem(
+                "Rule: " + rule,
+                ruleCounts.get(rule),
+                "Matched by the consoleCleaner.rules entry",
+              );
+            });
+          if (unsafe > 0) {
+            html += statsItem(
+              "Needs manual review",
+              unsafe,
+              "Left in place when cleaning because removing them could change behavior",
+            );
+          }
+          if (view.suppressed > 0) {
+            html += statsItem(
+              "Suppressed by comments",
+              view.suppressed,
+              "Skipped because of console-cleaner-ignore/disable comments",
+            );
+          }
+          if (disabled > 0) {
+            html += statsItem(
+              "Disabled",
+              disabled,
+              "Commented out by Disable; can be re-enabled",
+            );
           }
+        }
+
+        // Keep the spinner animation running when nothing changed
+        const stats = $("stats");
+        if (stats.dataset.html !== html) {
+          stats.dataset.html = html;
+          stats.innerHTML = html;
+        }
+      }
+
+      function compareText(a, b) {
+        return a.localeCompare(b);
+      }
+
+      // Used for files and folders alike; both have path, count and
+      // modified
+      function compareEntries(a, b) {
+        switch (view.listView.sort) {
+          case "count":
+            return b.count - a.count || compareText(a.path, b.path);
+          case "modified":
+            return b.modified - a.modified || compareText(a.path, b.path);
+          default:
+            return compareText(a.path, b.path);
+        }
+      }
+
+      // Flatten what is shown into rows: workspace folders, folders of the
+      // tree, files, and the statements of expanded files
+      function buildRows() {
+        const query = filter.trim().toLowerCase();
+        shownFiles = Array.from(files.values())
+          .filter(function(file) {
+            return !query || file.filterText.includes(query);
+          })
+          .sort(compareEntries);
+        rows = [];
+
+        // Single-folder workspaces have no folder groups
+        if (view.workspaceFolders.length <= 1) {
+          addFileRows(shownFiles, "");
+        } else {
+          const groups = new Map();
+          view.workspaceFolders.forEach(function(folder) {
+            groups.set(folder.uri, {
+              folder: folder,
+              files: [],
+              count: 0,
+              total: 0,
+            });
+          });
+          files.forEach(function(file) {
+            if (!groups.has(file.folder)) {
+              groups.set(file.folder, { files: [], count: 0, total: 0 });
+            }
+            const group = groups.get(file.folder);
+            group.count++;
+            group.total += file.count;
+          });
+          shownFiles.forEach(function(file) {
+            groups.get(file.folder).files.push(file);
+          });
+          groups.forEach(function(group, key) {
+            rows.push({ type: "folder", group: group, depth: 0 });
+            if (group.count === 0) {
+              rows.push({ type: "empty", depth: 0 });
+            } else {
+              addFileRows(group.files, key);
+            }
+          });
+        }
+
+        offsets = [0];
+        rows.forEach(function(row) {
+          offsets.push(offsets[offsets.length - 1] + ROW_HEIGHTS[row.type]);
         });
+        $("fileList").style.height = offsets[rows.length] + "px";
+        $("shownCount").textContent = query
+          ? shownFiles.length + " of " + files.size
+          : String(files.size);
+        renderedRange = "";
       }
 
-      // Open file function
-      window.openFile = function(pathData) {
-        const decodedPath = decodePath(pathData);
-        vscode.postMessage({ command: "openFile", path: decodedPath });
-      };
+      // The files of one workspace folder, as a list or a folder tree
+      function addFileRows(list, folderKey) {
+        if (!view.listView.groupByFolder) {
+          list.forEach(function(file) {
+            addFile(file, 0, true);
+          });
+          return;
+        }
 
-      // Clean single file function
-      window.cleanSingleFile = function(pathData) {
-        const decodedPath = decodePath(pathData);
-        vscode.postMessage({ command: "cleanFile", path: decodedPath });
-      };
-    })();
-  </script>
+        const root = createDirectory("");
+        list.forEach(function(file) {
+          const segments = file.relativePath.split("/").slice(0, -1);
+          let node = root;
+          [undefined].concat(segments).forEach(function(segment) {
+            if (segment !== undefined) {
+              let child = node.directories.get(segment);
+              if (!child) {
+                child = createDirectory(
+                  node.path ? node.path + "/" + segment : segment,
+                );
+                node.directories.set(segment, child);
+              }
+              node = child;
+            }
+            node.count += file.count;
+            node.modified = Math.max(node.modified, file.modified);
+          });
+          node.files.push(file);
+        });
+        addDirectoryRows(root, folderKey, 0);
+      }
 
-  <div class="developer-credit">
-    Developed by <strong>Harsh Jolapara</strong>
-  </div>
+      function createDirectory(path) {
+        return {
+          path: path,
+          directories: new Map(),
+          files: [],
+          count: 0,
+          modified: 0,
+        };
+      }
 
-</body>
-</html>`;
-  }
+      function basename(path) {
+        return path.slice(path.lastIndexOf("/") + 1);
+      }
 
-  private generateStats(files: FileConsoleInfo[]): string {
-    if (this._isScanning) {
-      return `
-        <div class="stats">
-          <div class="stats-item">
-            <span class="stats-label">Status</span>
-            <span class="stats-value">
-              <span class="spinner"></span>
-              Scanning...
-            </span>
-          </div>
-        </div>
-      `;
-    }
-
-    if (this._isCleaning) {
-      return `
-        <div class="stats">
-          <div class="stats-item">
-            <span class="stats-label">Status</span>
-            <span class="stats-value">
-              <span class="spinner"></span>
-              Cleaning...
-            </span>
-          </div>
-        </div>
-      `;
-    }
-
-    const totalLogs = files.reduce((sum, file) => sum + file.count, 0);
+      // Subfolders first, then the files directly in the node, which are
+      // already sorted
+      function addDirectoryRows(node, folderKey, depth) {
+        Array.from(node.directories.values())
+          .sort(compareEntries)
+          .forEach(function(directory) {
+            // Chains of single folders are shown as one entry, like the
+            // Explorer
+            let label = basename(directory.path);
+            while (
+              directory.files.length === 0 &&
+              directory.directories.size === 1
+            ) {
+              directory = directory.directories.values().next().value;
+              label += "/" + basename(directory.path);
+            }
+            const key = folderKey + "#" + directory.path;
+            rows.push({
+              type: "dir",
+              key: key,
+              label: label,
+              directory: directory,
+              depth: depth,
+            });
+            if (!collapsed.has(key)) {
+              addDirectoryRows(directory, folderKey, depth + 1);
+            }
+          });
+        node.files.forEach(function(file) {
+          addFile(file, depth, false);
+        });
+      }
 
-    return `
-      <div class="stats">
-        <div class="stats-item">
-          <span class="stats-label">Files with console logs</span>
-          <span class="stats-value">${files.length}</span>
-        </div>
-        <div class="stats-item">
-          <span class="stats-label">Total console logs</span>
-          <span class="stats-value">${totalLogs}</span>
-        </div>
-      </div>
-    `;
-  }
+      function addFile(file, depth, showDirectory) {
+        rows.push({
+          type: "file",
+          file: file,
+          depth: depth,
+          showDirectory: showDirectory,
+        });
+        if (expanded.has(file.path)) {
+          file.occurrences.forEach(function(occurrence) {
+            rows.push({
+              type: "occurrence",
+              file: file,
+              occurrence: occurrence,
+              depth: depth,
+            });
+          });
+        }
+      }
+
+      function scheduleRender() {
+        if (isRenderPending) {
+          return;
+        }
+        isRenderPending = true;
+        requestAnimationFrame(function() {
+          isRenderPending = false;
+          render();
+        });
+      }
 
-  private generateFileList(files: FileConsoleInfo[]): string {
-    if (files.length === 0 && !this._isScanning) {
-      return `
-        <div class="empty-state">
-          <div class="empty-state-icon">🎉</div>
-          <div class="empty-state-text">
-            No console logs found in your project!<br>
-            Your code is clean.
-          </div>
-        </div>
-      `;
-    }
-
-    if (files.length === 0) {
-      return "";
-    }
-
-    const isOperating = this._isScanning || this._isCleaning;
-
-    const fileItems = files
-      .map((fileInfo) => {
-        const relativePath = vscode.workspace.asRelativePath(fileInfo.path);
-        const fileName = path.basename(fileInfo.path);
-        const dirName = path.dirname(relativePath);
-
-        // Use encodeURIComponent instead of base64 for better webview compatibility
-        const encodedPath = encodeURIComponent(fileInfo.path);
-
-        // Escape HTML for display
-        const escapedRelativePath = this.escapeHtml(relativePath);
-        const escapedFileName = this.escapeHtml(fileName);
-        const escapedDirName = this.escapeHtml(dirName);
-
-        return `
-          <li class="file-item">
-            <div 
-              class="file-info" 
-              onclick="openFile('${encodedPath}')"
-              title="${escapedRelativePath}">
-              <div class="file-path">
-                <strong>${escapedFileName}</strong>
-                ${dirName !== "." ? `<br><small style="color: var(--vscode-descriptionForeground);">${escapedDirName}</small>` : ""}
-              </div>
-              <span class="console-count" title="${fileInfo.count} console log${fileInfo.count !== 1 ? "s" : ""}">${fileInfo.count}</span>
-            </div>
-            <div class="file-actions">
-              <button 
-                class="icon-button" 
-                onclick="cleanSingleFile('${encodedPath}')"
-                title="${isOperating ? "Operation in progress..." : "Clean this file"}"
-                ${isOperating ? "disabled" : ""}>
-                🧹
-              </button>
-            </div>
-          </li>
-        `;
-      })
-      .join("");
+      // Index of the row at this many pixels from the top of the list
+      function findRow(y) {
+        let low = 0;
+        let high = rows.length - 1;
+        while (low < high) {
+          const middle = Math.ceil((low + high) / 2);
+          if (offsets[middle] <= y) {
+            low = middle;
+          } else {
+            high = middle - 1;
+          }
+        }
+        return low;
+      }
 
-    return `
-      <div class="section-header">Affected Files (${files.length})</div>
-      <ul class="file-list">
-        ${fileItems}
-      </ul>
-    `;
-  }
+      function render() {
+        if (!view) {
+          return;
+        }
+        if (scrollY !== window.scrollY) {
+          scrollY = window.scrollY;
+          saveState();
+        }
 
-  private escapeHtml(text: string): string {
-    const map: Record<string, string> = {
-      "&": "&amp;",
-      "<": "&lt;",
-      ">": "&gt;",
-      '"': "&quot;",
-      "'": "&#039;",
-    };
-    return text.replace(/[&<>"']/g, (m) => map[m]);
+        const top = $("fileList").getBoundingClientRect().top;
+        const first = Math.max(0, findRow(-top) - OVERSCAN);
+        const last = Math.min(
+          rows.length - 1,
+          findRow(window.innerHeight - top) + OVERSCAN,
+        );
+        const range = first + ":" + last;
+        if (range === renderedRange) {
+          return;
+        }
+        renderedRange = range;
+
+        const container = $("fileRows");
+        container.style.transform = "translateY(" + offsets[first] + "px)";
+        container.innerHTML = rows
+          .slice(first, last + 1)
+          .map(function(row, index) {
+            return (
+              '<div class="row row-' + row.type + '" data-index="' +
+              (first + index) + '">' +
+              renderRow(row) +
+              "</div>"
+            );
+          })
+          .join("");
+        // Inline style attributes are blocked by the content security
+        // policy
+        container.querySelectorAll(".row").forEach(function(element) {
+          const row = rows[Number(element.dataset.index)];
+          element.style.paddingLeft = row.depth * INDENT + "px";
+        });
+        updateSelection();
+      }
+
+      function countBadge(count) {
+        return (
+          '<span class="console-count" title="' +
+          plural(count, "console log") + '">' + count + "</span>"
+        );
+      }
+
+      function iconButton(action, icon, title, isDisabled) {
+        return (
+          '<button class="icon-button" data-action="' + action + '"' +
+          ' title="' + escapeHtml(operationTitle(title)) + '"' +
+          (isOperating() || isDisabled ? " disabled" : "") +
+          ">" + icon + "</button>"
+        );
+      }
+
+      function renderRow(row) {
+        switch (row.type) {
+          case "folder": {
+            const folder = row.group.folder;
+            return (
+              '<div class="folder-header">' +
+              '<span class="folder-name" title="' +
+              escapeHtml(folder ? folder.fsPath : "") + '">📁 ' +
+              escapeHtml(folder ? folder.name : "Other") + "</span>" +
+              countBadge(row.group.total) +
+              (folder
+                ? '<div class="file-actions">' +
+                  iconButton("rescan-folder", "🔄", "Rescan this folder", false) +
+                  iconButton(
+                    "clean-folder",
+                    "🧹",
+                    "Clean this folder",
+                    row.group.count === 0,
+                  ) +
+                  "</div>"
+                : "") +
+              "</div>"
+            );
+          }
+          case "empty":
+            return '<div class="folder-empty">No console logs found</div>';
+          case "dir":
+            return (
+              '<div class="dir-item' +
+              (collapsed.has(row.key) ? " collapsed" : "") +
+              '" data-action="toggle-dir" title="' +
+              escapeHtml(row.directory.path) + '">' +
+              '<span class="expand-toggle">▶</span>' +
+              '<span class="dir-name">📂 ' + escapeHtml(row.label) + "</span>" +
+              countBadge(row.directory.count) +
+              "</div>"
+            );
+          case "file":
+            return renderFile(row);
+          case "occurrence": {
+            const occurrence = row.occurrence;
+            return (
+              '<div class="occurrence-item" data-action="open-occurrence"' +
+              ' title="' + escapeHtml(occurrence.snippet) + '">' +
+              '<span class="occurrence-line">' +
+              (occurrence.line + 1) + ":" + (occurrence.column + 1) +
+              "</span>" +
+              '<span class="occurrence-method">' +
+              escapeHtml(occurrence.method) + "</span>" +
+              (occurrence.safety === "unsafe"
+                ? '<span class="occurrence-unsafe" title="Needs manual review: ' +
+                  escapeHtml(occurrence.reason || "") + '">⚠️</span>'
+                : "") +
+              '<span class="occurrence-snippet">' +
+              escapeHtml(occurrence.snippet) + "</span>" +
+              "</div>"
+            );
+          }
+        }
+        return "";
+      }
+
+      function renderFile(row) {
+        const file = row.file;
+        const slash = file.relativePath.lastIndexOf("/");
+        const dirName =
+          row.showDirectory && slash > 0
+            ? file.relativePath.slice(0, slash)
+            : "";
+        // One line below the name, so that every file row has the same
+        // height
+        const detail =
+          escapeHtml(dirName) +
+          (file.policy
+            ? (dirName ? " · " : "") +
+              '<span class="file-policy" title="Policy applied to this file">' +
+              escapeHtml(file.policy) + "</span>"
+            : "");
+
+        return (
+          '<div class="file-item' +
+          (expanded.has(file.path) ? " expanded" : "") + '">' +
+          '<input type="checkbox" class="file-select"' +
+          ' title="Select for batch cleaning"' +
+          (isOperating() || file.count === 0 ? " disabled" : "") + ">" +
+          '<span class="expand-toggle" data-action="toggle-file"' +
+          ' title="Show console statements">▶</span>' +
+          '<div class="file-info" data-action="open-file" title="' +
+          escapeHtml(file.relativePath) + '">' +
+          '<div class="file-path"><strong>' +
+          escapeHtml(file.relativePath.slice(slash + 1)) + "</strong>" +
+          (detail ? '<span class="file-detail">' + detail + "</span>" : "") +
+          "</div>" +
+          countBadge(file.count) +
+          "</div>" +
+          '<div class="file-actions">' +
+          (file.disabled > 0
+            ? iconButton(
+                "enable-file",
+                "🔊",
+                "Re-enable " + plural(file.disabled, "disabled console log"),
+                false,
+              )
+            : "") +
+          iconButton(
+            "disable-file",
+            "🔇",
+            "Disable console logs in this file",
+            file.count === 0,
+          ) +
+          iconButton("clean-file", "🧹", "Clean this file", file.count === 0) +
+          "</div>" +
+          "</div>"
+        );
+      }
+
+      function updateSelection() {
+        $("selectionBar").classList.toggle("visible", selected.size > 0);
+        $("selectionCount").textContent =
+          plural(selected.size, "file") + " selected";
+
+        $("fileRows").querySelectorAll(".file-select").forEach(function(box) {
+          const row = rows[Number(box.closest(".row").dataset.index)];
+          box.checked = selected.has(row.file.path);
+        });
+
+        const selectable = shownFiles.filter(function(file) {
+          return file.count > 0;
+        });
+        const checked = selectable.filter(function(file) {
+          return selected.has(file.path);
+        });
+        const selectAll = $("selectAll");
+        selectAll.checked =
+          selectable.length > 0 && checked.length === selectable.length;
+        selectAll.indeterminate = checked.length > 0 && !selectAll.checked;
+      }
+
+      function toggle(set, key) {
+        if (set.has(key)) {
+          set.delete(key);
+        } else {
+          set.add(key);
+        }
+        saveState();
+        buildRows();
+        scheduleRender();
+      }
+
+      // Rows are replaced while scrolling, so one listener handles them all
+      $("fileRows").addEventListener("click", function(event) {
+        const target = event.target.closest("[data-action]");
+        if (!target || target.disabled) {
+          return;
+        }
+        const row = rows[Number(target.closest(".row").dataset.index)];
+        switch (target.dataset.action) {
+          case "toggle-file":
+            toggle(expanded, row.file.path);
+            break;
+          case "toggle-dir":
+            toggle(collapsed, row.key);
+            break;
+          case "open-file":
+            vscode.postMessage({ command: "openFile", path: row.file.path });
+            break;
+          case "open-occurrence":
+            vscode.postMessage({
+              command: "openFile",
+              path: row.file.path,
+              line: row.occurrence.line,
+              column: row.occurrence.column,
+            });
+            break;
+          case "clean-file":
+            vscode.postMessage({ command: "cleanFile", path: row.file.path });
+            break;
+          case "disable-file":
+            vscode.postMessage({ command: "disableFile", path: row.file.path });
+            break;
+          case "enable-file":
+            vscode.postMessage({ command: "enableFile", path: row.file.path });
+            break;
+          case "rescan-folder":
+            vscode.postMessage({
+              command: "rescanFolder",
+              uri: row.group.folder.uri,
+            });
+            break;
+          case "clean-folder":
+            vscode.postMessage({
+              command: "cleanFolder",
+              uri: row.group.folder.uri,
+            });
+            break;
+        }
+      });
+
+      $("fileRows").addEventListener("change", function(event) {
+        if (!event.target.classList.contains("file-select")) {
+          return;
+        }
+        const row = rows[Number(event.target.closest(".row").dataset.index)];
+        if (event.target.checked) {
+          selected.add(row.file.path);
+        } else {
+          selected.delete(row.file.path);
+        }
+        saveState();
+        updateSelection();
+      });
+
+      $("selectAll").addEventListener("change", function() {
+        const isChecked = this.checked;
+        shownFiles.forEach(function(file) {
+          if (file.count === 0) {
+            return;
+          }
+          if (isChecked) {
+            selected.add(file.path);
+          } else {
+            selected.delete(file.path);
+          }
+        });
+        saveState();
+        updateSelection();
+      });
+
+      $("cleanSelectedBtn").addEventListener("click", function() {
+        if (!this.disabled && selected.size > 0) {
+          vscode.postMessage({
+            command: "cleanFiles",
+            paths: Array.from(selected),
+          });
+        }
+      });
+
+      $("clearSelectionBtn").addEventListener("click", function() {
+        selected.clear();
+        saveState();
+        updateSelection();
+      });
+
+      const filterInput = $("filterInput");
+      filterInput.value = filter;
+      filterInput.addEventListener("input", function() {
+        filter = this.value;
+        saveState();
+        buildRows();
+        scheduleRender();
+      });
+
+      // Sort order and grouping are kept by the extension
+      $("sortSelect").addEventListener("change", function() {
+        vscode.postMessage({ command: "setSort", sort: this.value });
+      });
+
+      $("groupBtn").addEventListener("click", function() {
+        vscode.postMessage({
+          command: "setGrouping",
+          groupByFolder: !view.listView.groupByFolder,
+        });
+      });
+
+      $("scopeSelect").addEventListener("change", function() {
+        vscode.postMessage({ command: "setScope", scope: this.value });
+      });
+
+      $("modeSelect").addEventListener("change", function() {
+        vscode.postMessage({ command: "setCleanMode", mode: this.value });
+      });
+
+      for (const [id, command] of [
+        ["cleanBtn", "clean"],
+        ["rescanBtn", "rescan"],
+        ["disableAllBtn", "disableAll"],
+        ["enableAllBtn", "enableAll"],
+        ["exportBtn", "exportReport"],
+        ["dashboardBtn", "showDashboard"],
+      ]) {
+        $(id).addEventListener("click", function() {
+          if (!this.disabled) {
+            vscode.postMessage({ command: command });
+          }
+        });
+      }
+
+      window.addEventListener("scroll", scheduleRender);
+      window.addEventListener("resize", scheduleRender);
+
+      vscode.postMessage({ command: "ready" });
+    })();
+  </script>
+</body>
+</html>`;
   }
 }
@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+export interface SnapshotEntry {
+  path: string;
+  original: string;
+  // Hash of the content written by the clean, used to detect later edits
+  cleanedHash: string;
+}
+
+interface SnapshotManifest {
+  timestamp: number;
+  files: { path: string; snapshot: string; cleanedHash: string }[];
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash("sha1").update(content, "utf8").digest("hex");
+}
+
+// Keeps the pre-clean content of every file touched by the last project clean
+export class CleanSnapshotStore {
+  constructor(private readonly storageUri: vscode.Uri) {}
+
+  private get directory(): string {
+    return path.join(this.storageUri.fsPath, "last-clean");
+  }
+
+  private get manifestPath(): string {
+    return path.join(this.directory, "manifest.json");
+  }
+
+  async save(entries: SnapshotEntry[]): Promise<void> {
+    await this.clear();
+    if (entries.length === 0) {
+      return;
+    }
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const manifest: SnapshotManifest = { timestamp: Date.now(), files: [] };
+    for (let i = 0; i < entries.length; i++) {
+      const snapshot = `${i}.snapshot`;
+      await fs.promises.writeFile(
+        path.join(this.directory, snapshot),
+        entries[i].original,
+        "utf8",
+      );
+      manifest.files.push({
+        path: entries[i].path,
+        snapshot,
+        cleanedHash: entries[i].cleanedHash,
+      });
+    }
+
+    await fs.promises.writeFile(
+      this.manifestPath,
+      JSON.stringify(manifest),
+      "utf8",
+    );
+  }
+
+  async load(): Promise<SnapshotEntry[]> {
+    try {
+      const manifest: SnapshotManifest = JSON.parse(
+        await fs.promises.readFile(this.manifestPath, "utf8"),
+      );
+      const entries: SnapshotEntry[] = [];
+      for (const file of manifest.files) {
+        entries.push({
+          path: file.path,
+          original: await fs.promises.readFile(
+            path.join(this.directory, file.snapshot),
+            "utf8",
+          ),
+          cleanedHash: file.cleanedHash,
+        });
+      }
+      return entries;
+    } catch (error) {
+      // No snapshot yet, or it was removed from storage
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,172 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ReportFile } from "./report";
+
+// Console statement counts at the end of one full scan
+export interface ScanSnapshot {
+  timestamp: number;
+  files: number;
+  total: number;
+  // Keyed by `console.log`, or by the callee for rule matches
+  byMethod: Record<string, number>;
+  // Keyed by top-level folder; "." for files at the root
+  byFolder: Record<string, number>;
+  // Keyed by extension, e.g. ".ts"
+  byExtension: Record<string, number>;
+}
+
+export interface CleanRecord {
+  timestamp: number;
+  files: number;
+  statements: number;
+}
+
+interface StoredHistory {
+  version: number;
+  snapshots: ScanSnapshot[];
+  cleans: CleanRecord[];
+}
+
+const STORAGE_KEY = "consoleCleaner.statsHistory";
+const HISTORY_VERSION = 1;
+const MAX_SNAPSHOTS = 200;
+// Cleans are only summed per week, so older ones are dropped
+const CLEAN_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Counts for the current results. `depth` is the number of leading path
+// segments that name a folder: 2 in multi-root workspaces, where paths start
+// with the workspace folder name.
+export function summarizeScan(
+  files: ReportFile[],
+  depth = 1,
+  timestamp = Date.now(),
+): ScanSnapshot {
+  const snapshot: ScanSnapshot = {
+    timestamp,
+    files: 0,
+    total: 0,
+    byMethod: {},
+    byFolder: {},
+    byExtension: {},
+  };
+  const add = (
+    counts: Record<string, number>,
+    key: string,
+    count: number,
+  ) => {
+    counts[key] = (counts[key] ?? 0) + count;
+  };
+
+  for (const file of files) {
+    if (file.calls.length === 0) {
+      continue;
+    }
+    snapshot.files++;
+    snapshot.total += file.calls.length;
+
+    const segments = file.path.split("/");
+    const folder =
+      segments.length > depth
+        ? segments.slice(0, depth).join("/")
+        : segments.slice(0, -1).join("/") || ".";
+    add(snapshot.byFolder, folder, file.calls.length);
+    add(
+      snapshot.byExtension,
+      path.extname(file.path).toLowerCase() || "(none)",
+      file.calls.length,
+    );
+    for (const call of file.calls) {
+      const method = call.rule ? call.method : `console.${call.method}`;
+      add(snapshot.byMethod, method, 1);
+    }
+  }
+  return snapshot;
+}
+
+// Scan snapshots and clean totals over time, persisted in workspaceState
+export class StatsHistory {
+  private _snapshots: ScanSnapshot[];
+  private _cleans: CleanRecord[];
+
+  constructor(private readonly state: vscode.Memento) {
+    const stored = state.get<StoredHistory>(STORAGE_KEY);
+    const isCurrent = stored?.version === HISTORY_VERSION;
+    this._snapshots = isCurrent ? stored.snapshots : [];
+    this._cleans = isCurrent ? stored.cleans : [];
+  }
+
+  // Oldest first
+  get snapshots(): readonly ScanSnapshot[] {
+    return this._snapshots;
+  }
+
+  get cleans(): readonly CleanRecord[] {
+    return this._cleans;
+  }
+
+  async recordScan(snapshot: ScanSnapshot): Promise<void> {
+    // Rescans without changes only move the latest point forward
+    const latest = this._snapshots[this._snapshots.length - 1];
+    if (latest && isSameCounts(latest, snapshot)) {
+      this._snapshots[this._snapshots.length - 1] = snapshot;
+    } else {
+      this._snapshots.push(snapshot);
+    }
+    this._snapshots = this._snapshots.slice(-MAX_SNAPSHOTS);
+    await this.save();
+  }
+
+  async recordClean(record: CleanRecord): Promise<void> {
+    if (record.statements === 0) {
+      return;
+    }
+    const cutoff = record.timestamp - CLEAN_RETENTION_MS;
+    this._cleans = [
+      ...this._cleans.filter((clean) => clean.timestamp >= cutoff),
+      record,
+    ];
+    await this.save();
+  }
+
+  // Totals of the cleans since `since`
+  getCleanedSince(since: number): { files: number; statements: number } {
+    return this._cleans
+      .filter((clean) => clean.timestamp >= since)
+      .reduce(
+        (sum, clean) => ({
+          files: sum.files + clean.files,
+          statements: sum.statements + clean.statements,
+        }),
+        { files: 0, statements: 0 },
+      );
+  }
+
+  async clear(): Promise<void> {
+    this._snapshots = [];
+    this._cleans = [];
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredHistory = {
+      version: HISTORY_VERSION,
+      snapshots: this._snapshots,
+      cleans: this._cleans,
+    };
+    await this.state.update(STORAGE_KEY, stored);
+  }
+}
+
+function isSameCounts(a: ScanSnapshot, b: ScanSnapshot): boolean {
+  // Key order depends on the order files were scanned in
+  const isSame = (x: Record<string, number>, y: Record<string, number>) =>
+    Object.keys(x).length === Object.keys(y).length &&
+    Object.entries(x).every(([key, count]) => y[key] === count);
+  return (
+    a.files === b.files &&
+    a.total === b.total &&
+    isSame(a.byMethod, b.byMethod) &&
+    isSame(a.byFolder, b.byFolder) &&
+    isSame(a.byExtension, b.byExtension)
+  );
+}
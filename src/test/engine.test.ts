@@ -0,0 +1,209 @@
+import * as assert from "assert";
+import {
+  CleanTargets,
+  applyEdits,
+  getDisableEdits,
+  getEnableEdits,
+  getRemovalEdits,
+  scanSource,
+} from "../engine";
+
+const LOG: CleanTargets = ["log"];
+
+function clean(content: string, fileName = "test.ts", targets = LOG): string {
+  return applyEdits(content, getRemovalEdits(content, fileName, targets));
+}
+
+suite("Engine: detection", () => {
+  test("finds calls with a semicolon inside a string argument", () => {
+    const { calls } = scanSource('console.log("a; b");\n', "test.ts", LOG);
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(calls[0].snippet, 'console.log("a; b")');
+  });
+
+  test("ignores console calls in strings and comments", () => {
+    const content = [
+      'const s = "console.log(1)";',
+      "/** Use console.log( to debug */",
+      "// console.log(2)",
+      "",
+    ].join("\n");
+    assert.deepStrictEqual(scanSource(content, "test.ts", LOG).calls, []);
+  });
+
+  test("leaves calls on a redefined console for review", () => {
+    const content = [
+      "const console = { log() {} };",
+      "console.log(1);",
+      "function f(console) { console.log(2); }",
+      "",
+    ].join("\n");
+    assert.deepStrictEqual(
+      scanSource(content, "test.ts", LOG).calls.map((call) => call.safety),
+      ["unsafe", "unsafe"],
+    );
+    assert.strictEqual(clean(content), content);
+  });
+
+  test("finds optional-chained calls", () => {
+    const content = "console?.log(x);\nconsole.log?.(y);\n";
+    assert.strictEqual(scanSource(content, "test.ts", LOG).calls.length, 2);
+    assert.strictEqual(clean(content), "");
+  });
+});
+
+suite("Engine: removal", () => {
+  test("removes a call with a semicolon inside a string argument", () => {
+    assert.strictEqual(clean('console.log("a; b");\nfoo();\n'), "foo();\n");
+  });
+
+  test("keeps a statement in place under an if", () => {
+    assert.strictEqual(clean("if (x) console.log(x);\n"), "if (x) {}\n");
+  });
+
+  test("removes a JSX child expression", () => {
+    const content = "const v = (\n  <div>\n    {console.log(x)}\n  </div>\n);\n";
+    assert.strictEqual(
+      clean(content, "test.tsx"),
+      "const v = (\n  <div>\n  </div>\n);\n",
+    );
+  });
+
+  test("keeps a semicolon where removal would join two statements", () => {
+    assert.strictEqual(
+      clean("let a = 1\nconsole.log(a);\n(f)()\n"),
+      "let a = 1\n;(f)()\n",
+    );
+    assert.strictEqual(
+      clean("let a = 1\nconsole.log(a)\n;[1].forEach(f)\n"),
+      "let a = 1\n;[1].forEach(f)\n",
+    );
+    assert.strictEqual(
+      clean("let a = 1\nconsole.log(a);\n`x`.length\n"),
+      "let a = 1\n;`x`.length\n",
+    );
+  });
+
+  test("adds no semicolon when the previous statement ends with one", () => {
+    assert.strictEqual(
+      clean("let a = 1;\nconsole.log(a);\n(f)()\n"),
+      "let a = 1;\n(f)()\n",
+    );
+  });
+});
+
+suite("Engine: safety", () => {
+  test("rewrites a call whose value an expression needs", () => {
+    assert.strictEqual(clean("cond && console.log(a);\n"), "cond && void 0;\n");
+    assert.strictEqual(
+      clean("const f = () => console.log(x);\n"),
+      "const f = () => {};\n",
+    );
+  });
+
+  test("keeps side effects of the arguments", () => {
+    assert.strictEqual(clean("console.log(i++);\n"), "i++;\n");
+    assert.strictEqual(
+      clean("async function f() {\n  console.log(await save());\n}\n"),
+      "async function f() {\n  await save();\n}\n",
+    );
+  });
+
+  test("leaves calls whose return value is used", () => {
+    const content =
+      "const s = `${console.log(1)}`;\nconst y = console.log(2);\n";
+    const { calls } = scanSource(content, "test.ts", LOG);
+    assert.deepStrictEqual(
+      calls.map((call) => call.safety),
+      ["unsafe", "unsafe"],
+    );
+    assert.strictEqual(clean(content), content);
+  });
+});
+
+suite("Engine: disable and enable", () => {
+  const content = [
+    "function f(x) {",
+    "  console.log(",
+    "    x,",
+    "  );",
+    "  if (x) console.log(x);",
+    "  a(); console.warn(1); b();",
+    "  if (y) { console.log(2); }",
+    "}",
+    "",
+  ].join("\n");
+  const targets: CleanTargets = ["log", "warn"];
+
+  test("re-enabling restores the exact source", () => {
+    const disabled = applyEdits(
+      content,
+      getDisableEdits(content, "test.ts", targets),
+    );
+    assert.notStrictEqual(disabled, content);
+    assert.strictEqual(
+      applyEdits(disabled, getEnableEdits(disabled, "test.ts")),
+      content,
+    );
+  });
+
+  test("disabled statements are counted and never cleaned", () => {
+    const disabled = applyEdits(
+      content,
+      getDisableEdits(content, "test.ts", targets),
+    );
+    const result = scanSource(disabled, "test.ts", targets);
+    assert.strictEqual(result.calls.length, 0);
+    assert.strictEqual(result.disabled, 4);
+    assert.strictEqual(clean(disabled, "test.ts", targets), disabled);
+  });
+});
+
+suite("Engine: embedded scripts", () => {
+  test("cleans only the script block of a Vue file", () => {
+    const content = [
+      "<template><p>console.log(1)</p></template>",
+      "<script>",
+      "console.log(1);",
+      "foo();",
+      "</script>",
+      "",
+    ].join("\n");
+    assert.strictEqual(
+      clean(content, "test.vue"),
+      "<template><p>console.log(1)</p></template>\n<script>\nfoo();\n</script>\n",
+    );
+  });
+
+  test("reports lines of the host file", () => {
+    const content =
+      "<template>\n<p/>\n</template>\n<script>\nconsole.log(1);\n</script>\n";
+    const { calls } = scanSource(content, "test.vue", LOG);
+    assert.deepStrictEqual(
+      calls.map(({ line, column }) => [line, column]),
+      [[4, 0]],
+    );
+  });
+
+  test("leaves Svelte markup alone", () => {
+    assert.strictEqual(
+      clean(
+        "<script>\n  console.log(1);\n</script>\n<p>console.log(2)</p>\n",
+        "test.svelte",
+      ),
+      "<script>\n</script>\n<p>console.log(2)</p>\n",
+    );
+  });
+
+  test("skips HTML script blocks that hold data", () => {
+    const content = [
+      "<script>console.log(1); foo()</script>",
+      '<script type="application/json">{"console.log(1)": 1}</script>',
+      "",
+    ].join("\n");
+    assert.strictEqual(
+      clean(content, "test.html"),
+      '<script>foo()</script>\n<script type="application/json">{"console.log(1)": 1}</script>\n',
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { GitScopeOptions, getChangedFiles } from "../git";
+
+suite("Git scopes", () => {
+  let root: string;
+  let filePath: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: root, encoding: "utf8" });
+  const write = (lines: string[]) =>
+    fs.writeFileSync(filePath, lines.join("\n") + "\n");
+  const changedLines = async (
+    scope: GitScopeOptions["scope"],
+    indexLines = false,
+  ) => {
+    const changes = await getChangedFiles(
+      root,
+      { scope, baseBranch: "main", changedLinesOnly: true },
+      [],
+      indexLines,
+    );
+    const lines = changes.get(filePath);
+    return lines ? Array.from(lines).sort((a, b) => a - b) : lines;
+  };
+
+  setup(() => {
+    // Resolved so paths match git's, e.g. through a symlinked temp dir
+    root = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "console-cleaner-")),
+    );
+    filePath = path.join(root, "app.js");
+    git("init", "--quiet");
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    write(["a();", "b();", "c();"]);
+    git("add", ".");
+    git("commit", "--quiet", "-m", "initial");
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("reports added lines of the working tree", async () => {
+    write(["a();", "console.log(1);", "b();", "c();"]);
+    assert.deepStrictEqual(await changedLines("workingTree"), [1]);
+  });
+
+  test("maps staged lines through unstaged edits above them", async () => {
+    write(["a();", "b();", "console.log(1);", "c();"]);
+    git("add", ".");
+    write(["x();", "a();", "b();", "console.log(1);", "c();"]);
+    assert.deepStrictEqual(await changedLines("staged", true), [2]);
+    assert.deepStrictEqual(await changedLines("staged"), [3]);
+  });
+
+  test("drops staged lines that were edited again", async () => {
+    write(["a();", "console.log(1);", "b();", "c();"]);
+    git("add", ".");
+    write(["a();", "console.log(2);", "b();", "c();"]);
+    assert.deepStrictEqual(await changedLines("staged"), []);
+  });
+
+  test("parses paths whatever the diff prefix config", async () => {
+    git("config", "diff.noprefix", "true");
+    write(["a();", "console.log(1);", "b();", "c();"]);
+    assert.deepStrictEqual(await changedLines("workingTree"), [1]);
+  });
+});
@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Limiter } from "./concurrency";
+import { FileFilter } from "./fileFilter";
+
+export interface WalkOptions {
+  // Bounds the number of concurrent file system operations
+  limiter: Limiter;
+  isCancelled?: () => boolean;
+}
+
+// Calls `onFile` for every file under `dir` accepted by the filter. Symlinked
+// directories are followed once; unreadable entries are skipped.
+export async function walkFiles(
+  dir: string,
+  filter: FileFilter,
+  options: WalkOptions,
+  onFile: (filePath: string, stat: fs.Stats) => Promise<void>,
+  visited: Set<string> = new Set(),
+): Promise<void> {
+  const { limiter, isCancelled } = options;
+
+  if (isCancelled?.()) {
+    return;
+  }
+
+  try {
+    const realPath = await limiter.run(() => fs.promises.realpath(dir));
+    if (visited.has(realPath)) {
+      return;
+    }
+    visited.add(realPath);
+  } catch (error) {
+    if (visited.has(dir)) {
+      return;
+    }
+    visited.add(dir);
+  }
+
+  let files: string[];
+  try {
+    files = await limiter.run(() => fs.promises.readdir(dir));
+  } catch (error) {
+    // Silently skip directories we can't read
+    return;
+  }
+
+  await Promise.all(
+    files.map(async (file) => {
+      if (filter.isNameIgnored(file) || isCancelled?.()) {
+        return;
+      }
+
+      const fullPath = path.join(dir, file);
+
+      try {
+        const stat = await limiter.run(() => fs.promises.stat(fullPath));
+
+        if (stat.isDirectory()) {
+          if (!(await filter.isDirectoryExcluded(fullPath))) {
+            await walkFiles(fullPath, filter, options, onFile, visited);
+          }
+          return;
+        }
+        if ((await filter.isFileIncluded(fullPath)) && !isCancelled?.()) {
+          await onFile(fullPath, stat);
+        }
+      } catch (error) {
+        // Silently skip files we can't access
+      }
+    }),
+  );
+}